@@ -1,38 +1,194 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { 
-  Mic, Languages, MessageSquare, Volume2, 
-  Keyboard, Send, Wifi, WifiOff, X, Settings, Trash2, AlertCircle, Lock, Unlock, Square, ArrowLeftRight
+  Mic, Languages, MessageSquare, Volume2, VolumeX, RotateCcw, 
+  Keyboard, Send, Wifi, WifiOff, X, Settings, Trash2, AlertCircle, Lock, Unlock, Square, ArrowLeftRight, History, RefreshCw, Users, BookOpen, AlertTriangle, Clock, Download, Presentation, MonitorDown, Activity, FileAudio, QrCode, MoreHorizontal, SlidersHorizontal
 } from 'lucide-react';
-import { TranslationMode, ChatMessage } from './types';
-import { decode, encode, decodeAudioData, createPcmBlob } from './utils/audioUtils';
+import { AudioClipInfo, ChatMessage, Conversation, EngineInfo, ConversationKind, GlossaryEntry, LanguageCode, LanguagePair, LiveMode, OutboxItem, PhrasingStyle, SessionStatus, TranslationProfile } from './types';
+import { decode, decodeAudioData, encodeWav, concatPcm, PCM_SAMPLE_RATE } from './utils/audioUtils';
+import { createAudioCapture, AudioCapture } from './utils/audioCapture';
+import { LANGUAGES, LANGUAGE_CODES, DEFAULT_PAIR, getLanguage, reversePair, isSamePair, pairKey } from './utils/languages';
+import { saveConversation, saveMessage, patchMessage, saveAudioClip, getAudioClip, getConversation, getConversationMessages } from './utils/historyDb';
+import { downloadFile } from './utils/exportFormats';
+import { detectLanguageAsync } from './utils/languageDetection';
+import { buildGlossaryInstruction, checkGlossary } from './utils/glossary';
+import { BUILTIN_PROFILES, affectsLiveSession, buildProfileInstruction, profileVoice } from './utils/translationProfiles';
+import { DEFAULT_RECONNECT_POLICY, getBackoffDelay, pushBounded } from './utils/reconnect';
+import { DEFAULT_VAD_SETTINGS, InputMode, VadSettings, VoiceActivityDetector, createVoiceActivityDetector, createSpeechGate } from './utils/vad';
+import { useTelemetry } from './hooks/useTelemetry';
+import { DEFAULT_TRANSCRIPT_PIPELINE, RecentTranscript, TRANSCRIPT_STAGES, TranscriptPipelineSettings, runTranscriptPipeline } from './utils/transcriptPipeline';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useOutbox } from './hooks/useOutbox';
+import { usePwa } from './hooks/usePwa';
+import { SharedRoom, useSharedSession } from './hooks/useSharedSession';
+import { useAudioDevices } from './hooks/useAudioDevices';
+import { AudioDeviceSettings, DEFAULT_AUDIO_DEVICE_SETTINGS, audioConstraints, applyOutputDevice, supportsOutputSelection } from './utils/audioDevices';
+import { liveEngine, audioEngine, phrasingEngine, translateWithFallback, isPermanentFailure, TextTranslationResult, LiveSession, AudioTranslationSegment, FileTranslationCallbacks, FileTranslationPath, chooseFilePath, streamRecording, batchTranslateRecording, getTranslatorAvailability, prepareTranslator, onTranslatorDownloadProgress, PairAvailability } from './engines';
+import LanguageFlag from './components/LanguageFlag';
+import HistoryPanel from './components/HistoryPanel';
+import GlossaryPanel from './components/GlossaryPanel';
+import CaptionView from './components/CaptionView';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import SharePanel from './components/SharePanel';
+import MessageActions, { MessageAction } from './components/MessageActions';
+import ProfilesPanel from './components/ProfilesPanel';
+import { CaptionSettings, DEFAULT_CAPTION_SETTINGS, CaptionState, buildCaptionLines, openCaptionChannel } from './utils/captionChannel';
+import { AUDIO_FILE_ACCEPT, AudioFileError, decodeAudioFile, samplesToMs } from './utils/audioFile';
+import { averageMs, formatLatency } from './utils/telemetry';
+import { Participant } from './utils/relayProtocol';
+
+type MessageMeta = Partial<Pick<ChatMessage, 'conversationId' | 'turnId' | 'startedAt' | 'endedAt' | 'detectedLang' | 'glossaryViolations' | 'outboxStatus' | 'audio' | 'interrupted' | 'engine'>>;
+
+const OUTPUT_SAMPLE_RATE = 24000;
+// Upper bound on the microphone audio kept for a single turn
+const MAX_TURN_AUDIO_SECONDS = 60;
+// Messages remembered for duplicate suppression
+const RECENT_TRANSCRIPTS = 20;
+
+interface PlaybackSettings {
+  volume: number;
+  rate: number;
+  /** Text-only: translations are shown but not spoken. */
+  muted: boolean;
+}
+
+const ENGINE_BADGES: Record<EngineInfo['kind'], string> = { 'on-device': 'On-device', cloud: 'Cloud', live: 'Live' };
+const TRANSLATOR_STATUS: Record<PairAvailability, string> = {
+  available: 'Ready',
+  downloadable: 'Not downloaded',
+  downloading: 'Downloading',
+  unavailable: 'Not available',
+};
+
+const MESSAGE_ACTION_ERRORS: Record<MessageAction, string> = {
+  retranslate: 'translate the edited text',
+  'back-translate': 'back-translate the reply',
+  alternatives: 'find alternative phrasings',
+};
+const PHRASING_INSTRUCTIONS: Record<PhrasingStyle, string> = {
+  formal: 'Phrase the translation formally and politely, using the formal form of address where the language has one (e.g. "вы" in Russian).',
+  casual: 'Phrase the translation casually, as between friends, using the informal form of address where the language has one (e.g. "ты" in Russian).',
+};
+
+const DEFAULT_PLAYBACK: PlaybackSettings = { volume: 1, rate: 1, muted: false };
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+/** Cuts `text` to roughly `fraction` of its length, at a word boundary when it has spaces. */
+const truncateToFraction = (text: string, fraction: number) => {
+  if (fraction >= 1) return text;
+  const at = Math.round(text.length * fraction);
+  const cut = /\s/.test(text) ? text.lastIndexOf(' ', at) : at;
+  return cut > 0 ? `${text.slice(0, cut).trimEnd()}…` : '';
+};
 
 const App: React.FC = () => {
-  const [mode, setMode] = useState<TranslationMode>(TranslationMode.EN_TO_RU);
+  const [pair, setPair] = useState<LanguagePair>(DEFAULT_PAIR);
+  const [direction, setDirection] = useState<LanguagePair>(DEFAULT_PAIR);
+  const [liveMode, setLiveMode] = useState<LiveMode>('directed');
   const [isRecording, setIsRecording] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [status, setStatus] = useState<'Idle' | 'Connecting' | 'Live'>('Idle');
+  const [status, setStatus] = useState<SessionStatus>('Idle');
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [maxReconnectAttempts, setMaxReconnectAttempts] = usePersistentState('maxReconnectAttempts', DEFAULT_RECONNECT_POLICY.maxAttempts);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [showKeyboard, setShowKeyboard] = useState(false);
+  // Launched offline: only keyboard translation (on-device, or queued) can work
+  const [showKeyboard, setShowKeyboard] = useState(() => !navigator.onLine);
   const [inputText, setInputText] = useState('');
   const [isTranslatingText, setIsTranslatingText] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  // Opened from a scanned join link (?join=CODE)
+  const [showShare, setShowShare] = useState(() => new URLSearchParams(window.location.search).has('join'));
+  const [actionsMessageId, setActionsMessageId] = useState<string | null>(null);
+  const [messageBusy, setMessageBusy] = useState<Record<string, MessageAction>>({});
+  const [fileImport, setFileImport] = useState<{ name: string; path?: FileTranslationPath; progress: number } | null>(null);
+  const telemetry = useTelemetry();
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+  const [glossary, setGlossary] = usePersistentState<GlossaryEntry[]>('glossary', []);
+  const [profiles, setProfiles] = usePersistentState<TranslationProfile[]>('translationProfiles', BUILTIN_PROFILES);
+  const [activeProfileId, setActiveProfileId] = usePersistentState('activeProfile', BUILTIN_PROFILES[0].id);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const profile = profiles.find(p => p.id === activeProfileId) ?? profiles[0] ?? BUILTIN_PROFILES[0];
+  const [keepTurnAudio, setKeepTurnAudio] = usePersistentState('keepTurnAudio', true);
+  const [vadSettings, setVadSettings] = usePersistentState<VadSettings>('vad', DEFAULT_VAD_SETTINGS);
+  const [transcriptFilters, setTranscriptFilters] = usePersistentState<TranscriptPipelineSettings>('transcriptFilters', DEFAULT_TRANSCRIPT_PIPELINE);
+  const [isTalking, setIsTalking] = useState(false);
+  const [playbackSettings, setPlaybackSettings] = usePersistentState<PlaybackSettings>('playback', DEFAULT_PLAYBACK);
+  const [showPresenter, setShowPresenter] = useState(false);
+  const pwa = usePwa();
+  const [audioDeviceSettings, setAudioDeviceSettings] = usePersistentState<AudioDeviceSettings>('audioDevices', DEFAULT_AUDIO_DEVICE_SETTINGS);
+  const audioDevices = useAudioDevices();
+  const [translatorAvailability, setTranslatorAvailability] = useState<Record<string, PairAvailability>>({});
+  const [downloadProgress, setDownloadProgress] = useState<Record<string, number>>({});
+  const [captionSettings, setCaptionSettings] = usePersistentState<CaptionSettings>('captions', DEFAULT_CAPTION_SETTINGS);
   const [isMasterEnabled, setIsMasterEnabled] = useState(true);
   const [inputVolume, setInputVolume] = useState(0);
   
   const [liveTranscription, setLiveTranscription] = useState<{user: string, model: string}>({user: '', model: ''});
   
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  // Bumped whenever a Live session is replaced or stopped, so callbacks of the old one are ignored
+  const sessionGenRef = useRef(0);
+  // Set while startSession is opening the microphone and channel, before isRecording turns true
+  const startingRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const pendingAudioRef = useRef<Int16Array[]>([]);
   const transcriptionBufferRef = useRef({ user: '', model: '' });
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number>(0);
+  const conversationRef = useRef<Conversation | null>(null);
+  // Lines shown most recently, for the transcript pipeline's duplicate check
+  const recentTranscriptsRef = useRef<RecentTranscript[]>([]);
+  // Ids of messages already in the shared conversation, since the relay replays its history on every rejoin
+  const sharedSeenRef = useRef<Set<string>>(new Set());
+  // Relay events are applied one at a time: entering a room first reads what is already stored
+  const sharedQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const transcriptFiltersRef = useRef(transcriptFilters);
+  transcriptFiltersRef.current = transcriptFilters;
+  // Wall-clock boundaries of the Live turn in progress, used for subtitle cue timing
+  const turnTimingRef = useRef({ userStart: 0, userEnd: 0, modelStart: 0, speechEnd: 0, firstAudio: 0 });
+  // Audio of the turn in progress: 16 kHz microphone PCM and the 24 kHz Live reply
+  const turnAudioRef = useRef<{ user: Int16Array[]; model: Int16Array[] }>({ user: [], model: [] });
+  // Samples actually sent and received in the turn, unlike turnAudioRef which is capped and trimmed
+  const turnUsageRef = useRef({ sentSamples: 0, receivedSamples: 0 });
+  const keepTurnAudioRef = useRef(keepTurnAudio);
+  keepTurnAudioRef.current = keepTurnAudio;
+  const playbackRef = useRef<HTMLAudioElement | null>(null);
+  const vadSettingsRef = useRef(vadSettings);
+  vadSettingsRef.current = vadSettings;
+  // Input mode of the running session; fixed at start because push-to-talk changes the Live setup
+  const inputModeRef = useRef<InputMode>('continuous');
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const speechGateRef = useRef(createSpeechGate());
+  const pttActiveRef = useRef(false);
+  const pttTimerRef = useRef<number | null>(null);
+  const activityOpenRef = useRef(false);
+  const playbackSettingsRef = useRef(playbackSettings);
+  playbackSettingsRef.current = playbackSettings;
+  const outputGainRef = useRef<GainNode | null>(null);
+  // Where the current reply sits on the output clock, to tell how much of it was heard before an interruption
+  const replyScheduleRef = useRef<{ start: number | null; duration: number }>({ start: null, duration: 0 });
+  const turnInterruptedRef = useRef(false);
+  const lastReplyRef = useRef<{ messageId: string; pcm: Int16Array } | null>(null);
+  // Whether the running session was opened without synthesized speech (presenter mode)
+  const sessionTextOnlyRef = useRef(false);
+  const captionStateRef = useRef<CaptionState | null>(null);
+  const captionChannelRef = useRef<ReturnType<typeof openCaptionChannel> | null>(null);
+  const audioDeviceSettingsRef = useRef(audioDeviceSettings);
+  audioDeviceSettingsRef.current = audioDeviceSettings;
+  // Microphone → inputGain → analyser and capture; the microphone end can be swapped mid-session
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const inputGainRef = useRef<GainNode | null>(null);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -46,11 +202,28 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const getSystemInstruction = (m: TranslationMode) => {
-    const target = m === TranslationMode.EN_TO_RU ? 'Russian' : 'English';
-    const source = m === TranslationMode.EN_TO_RU ? 'English' : 'Russian';
+  const getSystemInstruction = (dir: LanguagePair, mode: LiveMode) =>
+    [getBaseInstruction(dir, mode), buildProfileInstruction(profile), buildGlossaryInstruction(glossary, dir, mode)].filter(Boolean).join('\n\n');
+
+  /** The profile and glossary sections the text paths add to their own prompt. */
+  const getTextInstructions = (dir: LanguagePair) =>
+    [buildProfileInstruction(profile), buildGlossaryInstruction(glossary, dir)].filter(Boolean);
+
+  const getBaseInstruction = (dir: LanguagePair, mode: LiveMode) => {
+    const source = getLanguage(dir.source).name;
+    const target = getLanguage(dir.target).name;
+
+    if (mode === 'conversation') {
+      return `You are a professional real-time interpreter for a face-to-face conversation between a ${source} speaker and a ${target} speaker.
+STRICT RULES:
+1. Detect the language of every utterance. If it is ${source}, output ONLY the direct ${target} translation. If it is ${target}, output ONLY the direct ${source} translation.
+2. NEVER repeat, echo, or include the speaker's original words in your response or transcription.
+3. DO NOT include any conversational filler, explanations, or labels.
+4. If you hear noise or unintelligible audio, output NOTHING.
+5. Provide text transcription ONLY for the translated text.`;
+    }
     
-    return `You are a professional real-time voice translator between English and Russian.
+    return `You are a professional real-time voice translator between ${source} and ${target}.
 STRICT RULES:
 1. ONLY output the direct ${target} translation.
 2. NEVER repeat, echo, or include the user's original ${source} words in your response or transcription.
@@ -59,45 +232,269 @@ STRICT RULES:
 5. Provide text transcription ONLY for the translated ${target} text.`;
   };
 
-  const addMessage = (sender: 'user' | 'model', text: string, isFromKeyboard: boolean = false) => {
-    let trimmed = text.trim();
+  const createConversation = (kind: ConversationKind, dir: LanguagePair, extra: Partial<Pick<Conversation, 'id' | 'createdAt' | 'sourceFile'>> = {}): Conversation => {
+    const now = extra.createdAt ?? Date.now();
+    const label = extra.sourceFile ? extra.sourceFile.name : kind === 'live' ? 'Live' : kind === 'shared' ? 'Shared' : 'Keyboard';
+    const conversation: Conversation = {
+      id: `conv-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      title: `${label} · ${getLanguage(dir.source).name} → ${getLanguage(dir.target).name} · ${new Date(now).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`,
+      kind,
+      pair: dir,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+      preview: '',
+      ...extra,
+    };
+    saveConversation(conversation).catch(err => console.error('Failed to save conversation:', err));
+    return conversation;
+  };
+
+  const addMessage = (sender: 'user' | 'model', text: string, dir: LanguagePair, isFromKeyboard: boolean = false, meta: MessageMeta = {}): ChatMessage | undefined => {
+    const trimmed = text.trim();
     if (!trimmed) return;
-    
-    // Filter noise artifacts
-    const noisePatterns = [/^<.*>$/i, /^\d+$/, /^[.,!?;: ]+$/, /^noise$/i, /^static$/i];
-    if (!isFromKeyboard && noisePatterns.some(pattern => pattern.test(trimmed))) return;
-
-    setMessages(prev => {
-      if (prev.length > 0) {
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg.text.toLowerCase() === trimmed.toLowerCase() && lastMsg.sender === sender) {
-          return prev;
-        }
-      }
-      return [
-        ...prev,
-        { id: Date.now().toString() + Math.random(), sender, text: trimmed, timestamp: Date.now() }
-      ];
-    });
+
+    // Each Live session and each keyboard batch is stored as its own conversation, except while sharing
+    const kind: ConversationKind = isFromKeyboard ? 'keyboard' : 'live';
+    if (!meta.conversationId && (!conversationRef.current || (conversationRef.current.kind !== kind && conversationRef.current.kind !== 'shared'))) {
+      conversationRef.current = createConversation(kind, dir);
+    }
+
+    const message: ChatMessage = {
+      id: Date.now().toString() + Math.random(),
+      conversationId: meta.conversationId || conversationRef.current!.id,
+      pair: dir,
+      sender,
+      text: trimmed,
+      timestamp: Date.now(),
+      lang: sender === 'user' ? dir.source : dir.target,
+      ...meta,
+    };
+    recentTranscriptsRef.current = [...recentTranscriptsRef.current, message].slice(-RECENT_TRANSCRIPTS);
+    insertMessage(message);
+    saveMessage(message).catch(err => console.error('Failed to save message:', err));
+    if (conversationRef.current?.kind === 'shared' && message.conversationId === conversationRef.current.id) {
+      sharedSeenRef.current.add(message.id);
+      shared.sendMessage(message);
+    }
+    return message;
+  };
+
+  const insertMessage = (message: ChatMessage) => setMessages(prev => {
+    // Late replies (e.g. from the outbox) go right after the rest of their turn,
+    // or only to storage when that conversation is no longer on screen
+    const turnEnd = message.turnId ? prev.map(m => m.turnId).lastIndexOf(message.turnId) : -1;
+    if (turnEnd < 0 && message.conversationId !== conversationRef.current?.id) return prev;
+    if (turnEnd < 0 || turnEnd === prev.length - 1) return [...prev, message];
+    return [...prev.slice(0, turnEnd + 1), message, ...prev.slice(turnEnd + 1)];
+  });
+
+  /** Stops adding to the current conversation; a shared one lasts until this device leaves it. */
+  const endConversation = () => {
+    if (conversationRef.current?.kind !== 'shared') conversationRef.current = null;
+  };
+
+  const updateMessage = (id: string, patch: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+    patchMessage(id, patch).catch(err => console.error('Failed to update message:', err));
+  };
+
+  const storeTurnAudio = (message: ChatMessage | undefined, pcm: Int16Array) => {
+    if (!message?.audio) return;
+    saveAudioClip({ ...message.audio, messageId: message.id, conversationId: message.conversationId, pcm: pcm.buffer as ArrayBuffer })
+      .catch(err => console.error('Failed to save turn audio:', err));
+  };
+
+  const loadWav = async (message: ChatMessage) => {
+    const clip = await getAudioClip(message.id);
+    return clip ? encodeWav(new Int16Array(clip.pcm), clip.sampleRate) : null;
+  };
+
+  const playMessage = async (message: ChatMessage) => {
+    const wav = message.audio ? await loadWav(message).catch(() => null) : null;
+    if (!wav) {
+      speakText(message.text, message.lang && getLanguage(message.lang).ttsLocale);
+      return;
+    }
+    window.speechSynthesis.cancel();
+    playbackRef.current?.pause();
+    const url = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+    const audio = new Audio(url);
+    audio.volume = playbackSettings.volume;
+    audio.playbackRate = playbackSettings.rate;
+    if (audioDeviceSettings.outputDeviceId) applyOutputDevice(audio, audioDeviceSettings.outputDeviceId);
+    audio.addEventListener('ended', () => URL.revokeObjectURL(url));
+    playbackRef.current = audio;
+    audio.play().catch(err => console.error('Failed to play recording:', err));
+  };
+
+  const downloadMessageAudio = async (message: ChatMessage) => {
+    const wav = await loadWav(message);
+    if (wav) downloadFile(`voice-match-${message.sender}-${message.id}.wav`, wav, 'audio/wav');
+  };
+
+  const openConversation = (conversation: Conversation, stored: ChatMessage[]) => {
+    if (isRecording) stopSession();
+    if (shared.status !== 'idle') shared.leave();
+    setShowKeyboard(false);
+    conversationRef.current = null;
+    recentTranscriptsRef.current = stored.slice(-RECENT_TRANSCRIPTS);
+    setMessages(stored);
+    setPair(conversation.pair);
+    setDirection(conversation.pair);
+    setShowHistory(false);
+  };
+
+  const receiveSharedMessage = (message: ChatMessage, replayed = false) => {
+    if (sharedSeenRef.current.has(message.id)) return;
+    sharedSeenRef.current.add(message.id);
+    // The other speaker is often picked up by this microphone too; the transcript filters catch the echo
+    recentTranscriptsRef.current = [...recentTranscriptsRef.current, message].slice(-RECENT_TRANSCRIPTS);
+    insertMessage(message);
+    saveMessage(message).catch(err => console.error('Failed to save message:', err));
+    // Translations from the other device are in this device's language
+    if (!replayed && message.sender === 'model' && !playbackSettingsRef.current.muted) speakText(message.text, message.lang && getLanguage(message.lang).ttsLocale);
+  };
+
+  const enterSharedRoom = async (room: SharedRoom, history: ChatMessage[], peer?: Participant) => {
+    if (conversationRef.current?.id !== room.conversationId) {
+      // Live output turns text-only while sharing, so a running session has to be restarted
+      stopSession();
+      setShowKeyboard(false);
+      // Rejoining after a reload continues the conversation already stored on this device
+      const [existing, stored] = await Promise.all([getConversation(room.conversationId), getConversationMessages(room.conversationId)]);
+      const dir: LanguagePair = { source: room.lang, target: peer?.lang ?? (room.lang === pair.target ? pair.source : pair.target) };
+      conversationRef.current = existing ?? createConversation('shared', dir, { id: room.conversationId, createdAt: room.createdAt });
+      sharedSeenRef.current = new Set(stored.map(m => m.id));
+      recentTranscriptsRef.current = stored.slice(-RECENT_TRANSCRIPTS);
+      setMessages(stored);
+    }
+    history.forEach(m => receiveSharedMessage(m, true));
+  };
+
+  const queueShared = (task: () => void | Promise<void>) => {
+    sharedQueueRef.current = sharedQueueRef.current.then(task).catch(err => console.error('Shared conversation update failed:', err));
+  };
+
+  const shared = useSharedSession({
+    onJoined: (room, history, peer) => queueShared(() => enterSharedRoom(room, history, peer)),
+    onMessage: message => queueShared(() => receiveSharedMessage(message)),
+  });
+
+  const leaveSharedConversation = () => {
+    shared.leave();
+    if (conversationRef.current?.kind !== 'shared') return;
+    stopSession();
+    conversationRef.current = null;
+  };
+
+  // Each device speaks its own language and hears the other's translated into it
+  useEffect(() => {
+    const lang = shared.room?.lang;
+    const peerLang = shared.peer?.lang;
+    if (!lang || !peerLang || lang === peerLang) return;
+    const next: LanguagePair = { source: lang, target: peerLang };
+    if (isSamePair(pair, next)) return;
+    if (isRecording) stopSession();
+    setPair(next);
+    setDirection(next);
+  }, [shared.room?.lang, shared.peer?.lang]);
+
+  useEffect(() => {
+    if (shared.status === 'connected') shared.sendPartial(liveTranscription.user, liveTranscription.model);
+  }, [liveTranscription, shared.status]);
+
+  /** Schedules 24 kHz PCM after whatever is already queued on the output context. */
+  const schedulePcm = async (pcm: Uint8Array) => {
+    const outCtx = outputAudioContextRef.current!;
+    if (!outputGainRef.current) {
+      outputGainRef.current = outCtx.createGain();
+      outputGainRef.current.connect(outCtx.destination);
+    }
+    outputGainRef.current.gain.value = playbackSettingsRef.current.volume;
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outCtx.currentTime);
+    const audioBuffer = await decodeAudioData(pcm, outCtx, OUTPUT_SAMPLE_RATE, 1);
+    const source = outCtx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.playbackRate.value = playbackSettingsRef.current.rate;
+    source.connect(outputGainRef.current);
+    source.addEventListener('ended', () => sourcesRef.current.delete(source));
+    const start = nextStartTimeRef.current;
+    const duration = audioBuffer.duration / source.playbackRate.value;
+    source.start(start);
+    nextStartTimeRef.current += duration;
+    sourcesRef.current.add(source);
+    return { start, duration };
+  };
+
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    replyScheduleRef.current = { start: null, duration: 0 };
+  };
+
+  useEffect(() => {
+    if (outputGainRef.current) outputGainRef.current.gain.value = playbackSettings.volume;
+  }, [playbackSettings.volume]);
+
+  useEffect(() => {
+    if (!playbackSettings.muted) return;
+    window.speechSynthesis.cancel();
+    stopPlayback();
+  }, [playbackSettings.muted]);
+
+  const replayLastTurn = () => {
+    const last = [...messages].reverse().find(m => m.sender === 'model');
+    if (!last) return;
+    const reply = lastReplyRef.current;
+    if (reply && reply.messageId === last.id && outputAudioContextRef.current) {
+      window.speechSynthesis.cancel();
+      stopPlayback();
+      outputAudioContextRef.current.resume();
+      schedulePcm(new Uint8Array(reply.pcm.buffer, reply.pcm.byteOffset, reply.pcm.byteLength));
+    } else {
+      playMessage(last);
+    }
   };
 
   const stopSession = useCallback(() => {
+    sessionGenRef.current++;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    pendingAudioRef.current = [];
+    vadRef.current?.stop();
+    vadRef.current = null;
+    speechGateRef.current.reset();
+    activityOpenRef.current = false;
     if (sessionRef.current) {
       sessionRef.current.close();
       sessionRef.current = null;
     }
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    micSourceRef.current?.disconnect();
+    micSourceRef.current = null;
+    inputGainRef.current = null;
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    stopPlayback();
+    turnInterruptedRef.current = false;
     setIsRecording(false);
     setStatus('Idle');
     setInputVolume(0);
     setLiveTranscription({user: '', model: ''});
     transcriptionBufferRef.current = { user: '', model: '' };
+    turnTimingRef.current = { userStart: 0, userEnd: 0, modelStart: 0, speechEnd: 0, firstAudio: 0 };
+    turnAudioRef.current = { user: [], model: [] };
+    endConversation();
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
   }, []);
 
@@ -111,125 +508,388 @@ STRICT RULES:
     animationFrameRef.current = requestAnimationFrame(updateVolume);
   };
 
-  const startSession = async (selectedMode: TranslationMode) => {
-    if (!isOnline || !isMasterEnabled) return;
+  const sendPcm = (pcm: Int16Array) => {
+    const session = sessionRef.current;
+    // ПРЕДОХРАНИТЕЛЬ №2: Проверяем, не закрылась ли сессия за ту миллисекунду, пока мы готовили звук
+    if (!session) return;
+    try {
+      if (inputModeRef.current === 'push-to-talk' && !activityOpenRef.current) {
+        session.startActivity();
+        activityOpenRef.current = true;
+      }
+      session.sendAudio(pcm);
+      turnUsageRef.current.sentSamples += pcm.length;
+    } catch (err) {
+      // Если поймали ошибку отправки - тихо выключаемся без спама
+      stopSession();
+    }
+  };
+
+  /** Closes the spoken turn once the VAD or push-to-talk gate shuts. */
+  const endSpeech = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    try {
+      if (inputModeRef.current === 'vad') {
+        session.endAudioStream();
+      } else if (inputModeRef.current === 'push-to-talk' && activityOpenRef.current) {
+        session.endActivity();
+        activityOpenRef.current = false;
+      }
+      turnTimingRef.current.speechEnd = Date.now();
+    } catch (err) {
+      stopSession();
+    }
+  };
+
+  /** Sends audio captured while the channel was connecting or reconnecting. */
+  const flushPendingAudio = () => {
+    const buffered = pendingAudioRef.current;
+    pendingAudioRef.current = [];
+    buffered.forEach(sendPcm);
+    if (buffered.length && !speechGateRef.current.isOpen) endSpeech();
+  };
+
+  const handleConnectionLost = (dir: LanguagePair, mode: LiveMode, gen: number, reason: string) => {
+    // Ignore callbacks from sessions that were replaced or stopped on purpose
+    if (gen !== sessionGenRef.current) return;
+    sessionGenRef.current++;
+    const dropped = sessionRef.current;
+    sessionRef.current = null;
+    try { dropped?.close(); } catch (e) {}
+
+    const attempt = ++reconnectAttemptRef.current;
+    if (attempt > maxReconnectAttempts) {
+      stopSession();
+      setSessionError(`Voice channel lost (${reason || 'connection closed'}). Gave up after ${maxReconnectAttempts} reconnect attempts.`);
+      return;
+    }
+
+    setStatus('Reconnecting');
+    reconnectTimerRef.current = window.setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      const nextGen = ++sessionGenRef.current;
+      try {
+        const session = await connectLive(dir, mode, nextGen);
+        if (nextGen !== sessionGenRef.current) return;
+        sessionRef.current = session;
+        activityOpenRef.current = false;
+        flushPendingAudio();
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        telemetry.record({ type: 'connection', at: Date.now(), event: 'connect-failed', reason });
+        handleConnectionLost(dir, mode, nextGen, reason);
+      }
+    }, getBackoffDelay(attempt, DEFAULT_RECONNECT_POLICY));
+  };
+
+  const connectLive = (selectedDirection: LanguagePair, mode: LiveMode, gen: number) => {
+    const markModelStart = () => {
+      if (!turnTimingRef.current.modelStart) turnTimingRef.current.modelStart = Date.now();
+    };
+
+    return liveEngine.connectLive!({
+      pair: selectedDirection,
+      mode,
+      voice: profileVoice(profile, selectedDirection.target),
+      model: profile.liveModel,
+      systemInstruction: getSystemInstruction(selectedDirection, mode),
+      manualActivity: inputModeRef.current === 'push-to-talk',
+      textOnly: sessionTextOnlyRef.current,
+    }, {
+      onOpen: () => {
+        if (gen !== sessionGenRef.current) return;
+        reconnectAttemptRef.current = 0;
+        setStatus('Live');
+        setIsRecording(true);
+      },
+      onAudio: async (audioData) => {
+        if (gen !== sessionGenRef.current) return;
+        markModelStart();
+        if (!turnTimingRef.current.firstAudio) turnTimingRef.current.firstAudio = Date.now();
+        const pcm = decode(audioData);
+        turnUsageRef.current.receivedSamples += pcm.byteLength >> 1;
+        turnAudioRef.current.model.push(new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength >> 1));
+        // A Live session has one fixed voice, so conversation mode speaks each translation
+        // with the target language's TTS locale at turnComplete instead
+        if (mode !== 'directed' || playbackSettingsRef.current.muted || turnInterruptedRef.current) return;
+        const { start, duration } = await schedulePcm(pcm);
+        const reply = replyScheduleRef.current;
+        if (reply.start === null) reply.start = start;
+        reply.duration = start + duration - reply.start;
+      },
+      onInterrupted: () => {
+        if (gen !== sessionGenRef.current) return;
+        turnInterruptedRef.current = true;
+        window.speechSynthesis.cancel();
+        const outCtx = outputAudioContextRef.current;
+        const reply = replyScheduleRef.current;
+        if (outCtx && reply.start !== null && reply.duration > 0) {
+          // Keep only the part of the reply the listener actually heard
+          const heard = Math.min(1, Math.max(0, (outCtx.currentTime - reply.start) / reply.duration));
+          const buffer = transcriptionBufferRef.current;
+          buffer.model = truncateToFraction(buffer.model, heard);
+          const audio = concatPcm(turnAudioRef.current.model);
+          turnAudioRef.current.model = [audio.subarray(0, Math.round(audio.length * heard))];
+          setLiveTranscription(prev => ({ ...prev, model: buffer.model }));
+        }
+        stopPlayback();
+      },
+      onInputTranscription: (text) => {
+        if (gen !== sessionGenRef.current) return;
+        const timing = turnTimingRef.current;
+        timing.userEnd = Date.now();
+        if (!timing.userStart) timing.userStart = timing.userEnd;
+        transcriptionBufferRef.current.user += text;
+        setLiveTranscription(prev => ({ ...prev, user: transcriptionBufferRef.current.user }));
+      },
+      onOutputTranscription: (text) => {
+        if (gen !== sessionGenRef.current) return;
+        markModelStart();
+        transcriptionBufferRef.current.model += text;
+        setLiveTranscription(prev => ({ ...prev, model: transcriptionBufferRef.current.model }));
+      },
+      onTurnComplete: async () => {
+        if (gen !== sessionGenRef.current) return;
+        const { user: uText, model: mText } = runTranscriptPipeline(transcriptionBufferRef.current, transcriptFiltersRef.current, recentTranscriptsRef.current);
+
+        const now = Date.now();
+        const outCtx = outputAudioContextRef.current;
+        const playbackEnd = outCtx ? now + Math.max(0, nextStartTimeRef.current - outCtx.currentTime) * 1000 : now;
+        const t = turnTimingRef.current;
+        const turnId = `turn-${now}`;
+        const interrupted = turnInterruptedRef.current;
+        const userAudio = concatPcm(turnAudioRef.current.user);
+        const modelAudio = concatPcm(turnAudioRef.current.model);
+        const usage = turnUsageRef.current;
+
+        // Reset before any await so the next turn starts from a clean slate
+        turnAudioRef.current = { user: [], model: [] };
+        turnUsageRef.current = { sentSamples: 0, receivedSamples: 0 };
+        turnInterruptedRef.current = false;
+        replyScheduleRef.current = { start: null, duration: 0 };
+        transcriptionBufferRef.current = { user: '', model: '' };
+        turnTimingRef.current = { userStart: 0, userEnd: 0, modelStart: 0, speechEnd: 0, firstAudio: 0 };
+        setLiveTranscription({ user: '', model: '' });
+
+        // Without a VAD or push-to-talk boundary, the last input transcription marks the end of speech
+        const speechEnd = t.speechEnd || t.userEnd;
+        if (t.userStart || t.modelStart) {
+          telemetry.record({
+            type: 'turn',
+            at: now,
+            mode,
+            pair: selectedDirection,
+            firstAudioMs: speechEnd && t.firstAudio ? Math.max(0, t.firstAudio - speechEnd) : undefined,
+            turnCompleteMs: speechEnd ? Math.max(0, now - speechEnd) : undefined,
+            audioSentSeconds: usage.sentSamples / PCM_SAMPLE_RATE,
+            audioReceivedSeconds: usage.receivedSamples / OUTPUT_SAMPLE_RATE,
+            interrupted: interrupted || undefined,
+          });
+        }
+
+        let turnDir = selectedDirection;
+        let detectedLang: LanguageCode | undefined;
+        if (mode === 'conversation') {
+          const langs = [selectedDirection.source, selectedDirection.target];
+          const [spoken, translatedInto] = await Promise.all([detectLanguageAsync(uText, langs), detectLanguageAsync(mText, langs)]);
+          if (gen !== sessionGenRef.current) return;
+          detectedLang = spoken
+            ?? (translatedInto ? (translatedInto === selectedDirection.source ? selectedDirection.target : selectedDirection.source) : null)
+            ?? selectedDirection.source;
+          turnDir = detectedLang === selectedDirection.source ? selectedDirection : reversePair(selectedDirection);
+        }
+
+        const engine: EngineInfo = { kind: 'live', label: liveEngine.label, latencyMs: t.userEnd && t.modelStart ? Math.max(0, t.modelStart - t.userEnd) : undefined };
+        const clipInfo = (pcm: Int16Array, sampleRate: number): AudioClipInfo | undefined =>
+          keepTurnAudioRef.current && pcm.length ? { sampleRate, durationMs: Math.round((pcm.length / sampleRate) * 1000) } : undefined;
+
+        if (uText) storeTurnAudio(addMessage('user', uText, turnDir, false, { turnId, startedAt: t.userStart || now, endedAt: t.userEnd || t.modelStart || now, detectedLang, audio: clipInfo(userAudio, PCM_SAMPLE_RATE) }), userAudio);
+        const glossaryViolations = checkGlossary(uText, mText, glossary, turnDir);
+        const reply = mText ? addMessage('model', mText, turnDir, false, { turnId, startedAt: t.modelStart || now, endedAt: playbackEnd, detectedLang, glossaryViolations: glossaryViolations.length ? glossaryViolations : undefined, audio: clipInfo(modelAudio, OUTPUT_SAMPLE_RATE), interrupted: interrupted || undefined, engine }) : undefined;
+        storeTurnAudio(reply, modelAudio);
+        if (reply && modelAudio.length) lastReplyRef.current = { messageId: reply.id, pcm: modelAudio };
+        if (mText && mode === 'conversation' && !playbackSettingsRef.current.muted && !sessionTextOnlyRef.current && !interrupted) speakText(mText, getLanguage(turnDir.target).ttsLocale);
+      },
+      onError: (message) => {
+        console.error('Voice channel error:', message);
+        if (gen !== sessionGenRef.current) return;
+        telemetry.record({ type: 'connection', at: Date.now(), event: 'error', reason: message });
+        handleConnectionLost(selectedDirection, mode, gen, message);
+      },
+      onClose: (reason, planned) => {
+        console.warn('Voice channel closed:', reason);
+        // Closing a session we stopped or replaced is not a drop, and neither is a token renewal handover
+        if (gen !== sessionGenRef.current) return;
+        if (!planned) telemetry.record({ type: 'connection', at: Date.now(), event: 'closed', reason });
+        handleConnectionLost(selectedDirection, mode, gen, reason);
+      },
+    });
+  };
+
+  /** Opens the microphone with the chosen device and processing, replacing the current one if any. */
+  const connectMicrophone = async () => {
+    const ctx = audioContextRef.current;
+    const gain = inputGainRef.current;
+    if (!ctx || !gain) return;
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(audioDeviceSettingsRef.current) });
+    if (inputGainRef.current !== gain) {
+      // The session stopped while the permission prompt or device switch was pending
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    const source = ctx.createMediaStreamSource(stream);
+    source.connect(gain);
+    micSourceRef.current?.disconnect();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    micSourceRef.current = source;
+    streamRef.current = stream;
+    // Unplugging the device ends the track; fall back to whatever is available now
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+      if (streamRef.current === stream) connectMicrophone().catch(err => console.error('Could not reopen the microphone:', err));
+    });
+    audioDevices.refresh();
+  };
+
+  const startSession = async (selectedDirection: LanguagePair, mode: LiveMode = 'directed') => {
+    if (!isOnline || !isMasterEnabled || importAbortRef.current || startingRef.current) return;
     if (isRecording) {
-      const wasSameMode = mode === selectedMode;
+      const wasSameSession = liveMode === mode && isSamePair(direction, selectedDirection);
       stopSession();
-      if (wasSameMode) return;
+      if (wasSameSession) return;
     }
-    setMode(selectedMode);
-    
+    setDirection(selectedDirection);
+    setLiveMode(mode);
+    setSessionError(null);
+    inputModeRef.current = vadSettings.inputMode;
+    // While sharing, the other device speaks the translation
+    sessionTextOnlyRef.current = (showPresenter && captionSettings.textOnly) || Boolean(shared.room);
+    startingRef.current = true;
+
     try {
       setStatus('Connecting');
-      if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 16000 });
-      if (!outputAudioContextRef.current) outputAudioContextRef.current = new AudioContext({ sampleRate: 24000 });
+      // Capture runs at the hardware rate; the worklet resamples to 16 kHz
+      if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+      if (!outputAudioContextRef.current) {
+        outputAudioContextRef.current = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+        if (audioDeviceSettings.outputDeviceId) applyOutputDevice(outputAudioContextRef.current, audioDeviceSettings.outputDeviceId);
+      }
       await audioContextRef.current.resume();
       await outputAudioContextRef.current.resume();
 
-      const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY});
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-      const sourceNode = audioContextRef.current.createMediaStreamSource(stream);
+      const inputGain = audioContextRef.current.createGain();
+      inputGain.gain.value = audioDeviceSettings.inputGain;
+      inputGainRef.current = inputGain;
+      await connectMicrophone();
       const analyser = audioContextRef.current.createAnalyser();
       analyser.fftSize = 256;
-      sourceNode.connect(analyser);
+      inputGain.connect(analyser);
       analyserRef.current = analyser;
       updateVolume();
+      if (inputModeRef.current === 'vad') vadRef.current = createVoiceActivityDetector(analyser, () => vadSettingsRef.current);
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedMode === TranslationMode.EN_TO_RU ? 'Kore' : 'Zephyr' } },
-          },
-          systemInstruction: getSystemInstruction(selectedMode),
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setStatus('Live');
-            setIsRecording(true);
-            const scriptProcessor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              // ПРЕДОХРАНИТЕЛЬ №1: Если мы вручную выключили запись или сессии больше нет
-              if (!sessionRef.current) {
-                sourceNode.disconnect(scriptProcessor);
-                scriptProcessor.disconnect();
-                return;
-              }
-
-              const pcmBlob = createPcmBlob(e.inputBuffer.getChannelData(0));
-              
-              sessionPromise.then(s => {
-                // ПРЕДОХРАНИТЕЛЬ №2: Проверяем, не закрылась ли сессия за ту миллисекунду, пока мы готовили звук
-                if (s && sessionRef.current) {
-                  try {
-                    s.sendRealtimeInput({ media: pcmBlob });
-                  } catch (err) {
-                    // Если поймали ошибку отправки - тихо выключаемся без спама
-                    stopSession();
-                  }
-                }
-              });
-            };
-            
-            sourceNode.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextRef.current!.destination);
-          },
-          onmessage: async (m: LiveServerMessage) => {
-            const audioData = m.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              const outCtx = outputAudioContextRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outCtx.currentTime);
-              const audioBuffer = await decodeAudioData(decode(audioData), outCtx, 24000, 1);
-              const source = outCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outCtx.destination);
-              source.addEventListener('ended', () => sourcesRef.current.delete(source));
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-            if (m.serverContent?.inputTranscription) {
-              transcriptionBufferRef.current.user += m.serverContent.inputTranscription.text;
-              setLiveTranscription(prev => ({ ...prev, user: transcriptionBufferRef.current.user }));
-            }
-            if (m.serverContent?.outputTranscription) {
-              transcriptionBufferRef.current.model += m.serverContent.outputTranscription.text;
-              setLiveTranscription(prev => ({ ...prev, model: transcriptionBufferRef.current.model }));
-            }
-            if (m.serverContent?.turnComplete) {
-              const uText = transcriptionBufferRef.current.user.trim();
-              let mText = transcriptionBufferRef.current.model.trim();
-              
-              if (uText && mText.toLowerCase().startsWith(uText.toLowerCase())) {
-                mText = mText.substring(uText.length).trim();
-                mText = mText.replace(/^[.,!?;: ]+/, '');
-              }
-
-              if (uText) addMessage('user', uText);
-              if (mText) addMessage('model', mText);
-              
-              transcriptionBufferRef.current = { user: '', model: '' };
-              setLiveTranscription({ user: '', model: '' });
-            }
-          },
-          onerror: (e) => { 
-            console.error("ОШИБКА ГОЛОСОВОГО КАНАЛА:", e);
-            stopSession(); 
-          },
-          onclose: (reason) => {
-            console.log("ГОЛОСОВОЙ КАНАЛ ЗАКРЫТ. Причина:", reason);
-            stopSession();
+      captureRef.current = await createAudioCapture(audioContextRef.current, inputGain, (pcm) => {
+        const inputMode = inputModeRef.current;
+        const speaking = inputMode === 'continuous'
+          || (inputMode === 'vad' ? Boolean(vadRef.current?.isSpeaking()) : pttActiveRef.current);
+        const preRollSamples = inputMode === 'vad' ? (vadSettingsRef.current.preRollMs / 1000) * PCM_SAMPLE_RATE : 0;
+        const { chunks, closed } = speechGateRef.current.process(pcm, speaking, preRollSamples);
+        chunks.forEach(chunk => {
+          pushBounded(turnAudioRef.current.user, chunk, MAX_TURN_AUDIO_SECONDS * PCM_SAMPLE_RATE);
+          // ПРЕДОХРАНИТЕЛЬ №1: Сессии нет — пока канал подключается или переподключается, копим звук
+          if (!sessionRef.current) {
+            pushBounded(pendingAudioRef.current, chunk, DEFAULT_RECONNECT_POLICY.bufferSeconds * PCM_SAMPLE_RATE);
+            return;
           }
-        }
+          sendPcm(chunk);
+        });
+        if (closed) endSpeech();
       });
-      sessionRef.current = await sessionPromise;
-    } catch (e) { setStatus('Idle'); }
+
+      const gen = ++sessionGenRef.current;
+      const session = await connectLive(selectedDirection, mode, gen);
+      if (gen === sessionGenRef.current) {
+        sessionRef.current = session;
+        flushPendingAudio();
+      }
+    } catch (e) {
+      console.error('Could not start the voice channel:', e);
+      telemetry.record({ type: 'connection', at: Date.now(), event: 'connect-failed', reason: e instanceof Error ? e.message : String(e) });
+      stopSession();
+      setSessionError('Could not start the voice channel. Check the microphone permission and connection.');
+    } finally {
+      startingRef.current = false;
+    }
+  };
+
+  const importAudioFile = async (file: File) => {
+    if (isRecording) stopSession();
+    const dir = direction;
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    setSessionError(null);
+    setFileImport({ name: file.name, progress: 0 });
+    try {
+      const pcm = await decodeAudioFile(file);
+      if (controller.signal.aborted) return;
+      const path = chooseFilePath(pcm, audioEngine);
+      setFileImport({ name: file.name, path, progress: 0 });
+
+      // The recording becomes its own conversation, shown from scratch like one opened from history
+      const conversation = createConversation('file', dir, { sourceFile: { name: file.name, durationMs: samplesToMs(pcm.length) } });
+      conversationRef.current = conversation;
+      recentTranscriptsRef.current = [];
+      setMessages([]);
+
+      const engine: EngineInfo = path === 'batch' ? { kind: audioEngine.kind, label: audioEngine.label } : { kind: 'live', label: liveEngine.label };
+      const callbacks: FileTranslationCallbacks = {
+        signal: controller.signal,
+        onProgress: (progress) => setFileImport(prev => prev && { ...prev, progress }),
+        onSegment: ({ startMs, endMs, source, translation }: AudioTranslationSegment) => {
+          // A recording legitimately repeats itself, so only the other filters apply
+          const { user, model } = runTranscriptPipeline({ user: source, model: translation }, { ...transcriptFiltersRef.current, dedupe: false }, []);
+          const meta: MessageMeta = { conversationId: conversation.id, turnId: `turn-${conversation.id}-${startMs}`, startedAt: conversation.createdAt + startMs, endedAt: conversation.createdAt + endMs };
+          const glossaryViolations = checkGlossary(user, model, glossary, dir);
+          if (user) addMessage('user', user, dir, false, meta);
+          if (model) addMessage('model', model, dir, false, { ...meta, glossaryViolations: glossaryViolations.length ? glossaryViolations : undefined, engine });
+        },
+      };
+      if (path === 'batch') {
+        await batchTranslateRecording(audioEngine, pcm, { pair: dir, instructions: getTextInstructions(dir), model: profile.textModel }, callbacks);
+      } else {
+        await streamRecording(liveEngine, pcm, { pair: dir, mode: 'directed', voice: profileVoice(profile, dir.target), model: profile.liveModel, systemInstruction: getSystemInstruction(dir, 'directed') }, callbacks);
+      }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Audio import failed:', err);
+      setSessionError(err instanceof AudioFileError ? err.message : `Could not translate ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      if (importAbortRef.current === controller) importAbortRef.current = null;
+      setFileImport(null);
+    }
+  };
+
+  const handlePairChange = (side: keyof LanguagePair, code: LanguageCode) => {
+    const other = side === 'source' ? 'target' : 'source';
+    const next: LanguagePair = pair[other] === code
+      ? reversePair(pair)
+      : { ...pair, [side]: code };
+    if (isRecording) stopSession();
+    setPair(next);
+    setDirection(next);
+  };
+
+  // The profile is part of the Live setup (prompt, voice, model), so switching restarts the session
+  const selectProfile = (id: string) => {
+    if (id === profile.id) return;
+    if (isRecording) stopSession();
+    setActiveProfileId(id);
+  };
+
+  const updateProfiles = (next: TranslationProfile[]) => {
+    const updated = next.find(p => p.id === profile.id);
+    if (isRecording && (!updated || affectsLiveSession(profile, updated))) stopSession();
+    setProfiles(next);
   };
 
   const handleMasterToggle = () => {
@@ -239,49 +899,192 @@ STRICT RULES:
     });
   };
 
+  /** The text path behind keyboard input and re-translation of edited messages. */
+  const translateText = async (text: string, dir: LanguagePair) => {
+    let result: TextTranslationResult;
+    try {
+      result = await translateWithFallback({ text, pair: dir, instructions: getTextInstructions(dir), model: profile.textModel });
+    } catch (err) {
+      telemetry.record({ type: 'text', at: Date.now(), error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    }
+    telemetry.record({ type: 'text', at: Date.now(), engine: result.engine.label, latencyMs: result.latencyMs, fallbackReason: result.fallbackReason });
+    const glossaryViolations = checkGlossary(text, result.text, glossary, dir);
+    const engine: EngineInfo = { kind: result.engine.kind, label: result.engine.label, latencyMs: result.latencyMs, fallbackReason: result.fallbackReason };
+    const meta: MessageMeta = { glossaryViolations: glossaryViolations.length ? glossaryViolations : undefined, engine };
+    return { result, meta };
+  };
+
+  /** Translates and adds the reply, unless `signal` was aborted while the translation was on its way. */
+  const translateKeyboardText = async (text: string, dir: LanguagePair, turnId: string, conversationId?: string, signal?: AbortSignal) => {
+    const { result, meta } = await translateText(text, dir);
+    if (signal?.aborted) return result;
+    addMessage('model', result.text, dir, true, { conversationId, turnId, startedAt: Date.now(), ...meta });
+    return result;
+  };
+
+  const reviseMessage = (message: ChatMessage, text: string, patch: Partial<ChatMessage> = {}) =>
+    updateMessage(message.id, { ...patch, text, revisions: [...(message.revisions || []), { text: message.text, editedAt: Date.now() }] });
+
+  /** Gives a reply new text; its recorded audio and back-translation describe the old one and are dropped. */
+  const reviseReply = (reply: ChatMessage, text: string, patch: Partial<ChatMessage> = {}) => {
+    if (lastReplyRef.current?.messageId === reply.id) lastReplyRef.current = null;
+    reviseMessage(reply, text, { ...patch, audio: undefined, interrupted: undefined, backTranslation: undefined });
+  };
+
+  const runMessageAction = async (message: ChatMessage, action: MessageAction, task: () => Promise<void>) => {
+    setMessageBusy(prev => ({ ...prev, [message.id]: action }));
+    try {
+      await task();
+    } catch (err) {
+      console.error(`Message action ${action} failed:`, err);
+      setSessionError(`Could not ${MESSAGE_ACTION_ERRORS[action]}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setMessageBusy(prev => {
+        const { [message.id]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  /** Replaces a misrecognized source text and translates it again through the keyboard path. */
+  const retranslateMessage = (source: ChatMessage, text: string) => runMessageAction(source, 'retranslate', async () => {
+    const turnId = source.turnId ?? `turn-${source.id}`;
+    reviseMessage(source, text, { turnId });
+    const { result, meta } = await translateText(text, source.pair);
+    const reply = messages.find(m => m.sender === 'model' && m.turnId === turnId);
+    if (reply) reviseReply(reply, result.text, { ...meta, alternatives: undefined });
+    else addMessage('model', result.text, source.pair, false, { conversationId: source.conversationId, turnId, startedAt: Date.now(), ...meta });
+  });
+
+  const backTranslateMessage = (reply: ChatMessage) => runMessageAction(reply, 'back-translate', async () => {
+    const { text } = await translateWithFallback({ text: reply.text, pair: reversePair(reply.pair), model: profile.textModel });
+    updateMessage(reply.id, { backTranslation: text });
+  });
+
+  const findAlternatives = (reply: ChatMessage) => runMessageAction(reply, 'alternatives', async () => {
+    const source = reply.turnId ? messages.find(m => m.sender === 'user' && m.turnId === reply.turnId) : undefined;
+    if (!source) throw new Error('the original text of this reply is not on screen');
+    const request = { text: source.text, pair: reply.pair, model: profile.textModel };
+    // The requested style replaces the profile's own
+    const glossaryInstruction = buildGlossaryInstruction(glossary, reply.pair);
+    const styles: PhrasingStyle[] = ['formal', 'casual'];
+    const results = await Promise.all(styles.map(style =>
+      translateWithFallback({ ...request, instructions: [PHRASING_INSTRUCTIONS[style], ...(glossaryInstruction ? [glossaryInstruction] : [])] }, [phrasingEngine])));
+    const alternatives = styles
+      .map((style, i) => ({ style, text: results[i].text.trim() }))
+      .filter(alt => alt.text && alt.text !== reply.text);
+    updateMessage(reply.id, { alternatives });
+  });
+
+  useEffect(() => {
+    if (inputGainRef.current) inputGainRef.current.gain.value = audioDeviceSettings.inputGain;
+  }, [audioDeviceSettings.inputGain]);
+
+  useEffect(() => {
+    if (!streamRef.current) return;
+    connectMicrophone().catch(err => console.error('Could not switch the microphone:', err));
+  }, [audioDeviceSettings.inputDeviceId, audioDeviceSettings.echoCancellation, audioDeviceSettings.noiseSuppression, audioDeviceSettings.autoGainControl]);
+
+  // A preferred microphone that is plugged back in mid-session takes over from the fallback
+  useEffect(() => {
+    const { inputDeviceId } = audioDeviceSettings;
+    if (!streamRef.current || !inputDeviceId || !audioDevices.inputs.some(d => d.deviceId === inputDeviceId)) return;
+    if (streamRef.current.getAudioTracks()[0]?.getSettings().deviceId === inputDeviceId) return;
+    connectMicrophone().catch(err => console.error('Could not switch the microphone:', err));
+  }, [audioDevices.inputs]);
+
+  useEffect(() => {
+    const { outputDeviceId } = audioDeviceSettings;
+    if (outputAudioContextRef.current) applyOutputDevice(outputAudioContextRef.current, outputDeviceId);
+    if (playbackRef.current) applyOutputDevice(playbackRef.current, outputDeviceId);
+  }, [audioDeviceSettings.outputDeviceId]);
+
+  useEffect(() => onTranslatorDownloadProgress(({ pair: dir, loaded }) => {
+    setDownloadProgress(prev => ({ ...prev, [pairKey(dir)]: loaded }));
+  }), []);
+
+  useEffect(() => {
+    if (!showSettings) return;
+    let cancelled = false;
+    Promise.all([pair, reversePair(pair)].map(async dir => [pairKey(dir), await getTranslatorAvailability(dir)] as const))
+      .then(entries => { if (!cancelled) setTranslatorAvailability(prev => ({ ...prev, ...Object.fromEntries(entries) })); });
+    return () => { cancelled = true; };
+  }, [showSettings, pair]);
+
+  // Must run from the click itself: browsers only start a model download on a user gesture
+  const downloadTranslator = (dir: LanguagePair) => {
+    const key = pairKey(dir);
+    setTranslatorAvailability(prev => ({ ...prev, [key]: 'downloading' }));
+    prepareTranslator(dir)
+      .then((): PairAvailability => 'available', (err): PairAvailability => {
+        console.error('Translator download failed:', err);
+        return 'downloadable';
+      })
+      .then(availability => {
+        setTranslatorAvailability(prev => ({ ...prev, [key]: availability }));
+        setDownloadProgress(prev => {
+          const { [key]: _, ...rest } = prev;
+          return rest;
+        });
+      });
+  };
+
+  const outbox = useOutbox(async (item: OutboxItem, signal: AbortSignal) => {
+    try {
+      await translateKeyboardText(item.text, item.pair, item.turnId, item.conversationId, signal);
+    } catch (err) {
+      // Retrying a request the server refused outright would only block the queue behind it
+      if (!isPermanentFailure(err)) throw err;
+      if (!signal.aborted) updateMessage(item.messageId, { outboxStatus: 'failed', outboxError: (err as Error).message });
+      return;
+    }
+    if (signal.aborted) return;
+    updateMessage(item.messageId, { outboxStatus: undefined });
+  }, isOnline);
+
+  const cancelQueued = (messageId: string) => {
+    const item = outbox.items.find(i => i.messageId === messageId);
+    if (item) outbox.cancel(item.id);
+    updateMessage(messageId, { outboxStatus: 'cancelled' });
+  };
+
      const handleTextTranslate = async () => {
     if (!inputText.trim()) return;
     const text = inputText;
     setInputText('');
     setShowKeyboard(false);
-    addMessage('user', text, true);
+    const dir = direction;
+    const sentAt = Date.now();
+    const turnId = `turn-${sentAt}`;
+    const userMessage = addMessage('user', text, dir, true, { turnId, startedAt: sentAt, endedAt: sentAt });
     setIsTranslatingText(true);
 
-    const targetLangName = mode === TranslationMode.EN_TO_RU ? 'Russian' : 'English';
-
     try {
-      const aiObj = (window as any).ai;
-      const localModel = aiObj?.languageModel || (window as any).LanguageModel;
-
-      if (localModel) {
-        const session = await localModel.create();
-        const translation = await session.prompt(
-          `Translate the following text into ${targetLangName}. Output ONLY the translation: ${text}`
-        );
-        session.destroy();
-        
-        const cleanTranslation = translation.trim();
-        // Добавляем пометку (ПК) для сообщения в чате
-        addMessage('model', `${cleanTranslation}  !`, true);
-        // Озвучиваем только чистый текст
-        speakText(cleanTranslation, mode === TranslationMode.EN_TO_RU ? 'ru-RU' : 'en-US');
-        setIsTranslatingText(false);
-        return; 
-      }
-
-      // --- ОБЛАЧНЫЙ FALLBACK ---
-      const genAI = new GoogleGenerativeAI(import.meta.env.VITE_API_KEY);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-      const result = await model.generateContent(`Translate to ${targetLangName}: ${text}. Output ONLY translation.`);
-      
-      const cloudTranslation = result.response.text().trim();
-      // Добавляем пометку (Cloud) для облачного перевода
-      addMessage('model', `${cloudTranslation} ^`, true);
-      speakText(cloudTranslation, mode === TranslationMode.EN_TO_RU ? 'ru-RU' : 'en-US');
-
+      const result = await translateKeyboardText(text, dir, turnId);
+      if (!shared.room && !playbackSettingsRef.current.muted) speakText(result.text, getLanguage(dir.target).ttsLocale);
     } catch (err) {
-      console.error("Ошибка:", err);
-      addMessage('model', "Connection error. Check VPN.");
+      console.error('Text translation failed:', err);
+      if (!userMessage) {
+        addMessage('model', "Connection error. Check VPN.", dir, true);
+        return;
+      }
+      if (isPermanentFailure(err)) {
+        updateMessage(userMessage.id, { outboxStatus: 'failed', outboxError: (err as Error).message });
+        return;
+      }
+      // Offline or the request failed: queue it and translate once the connection is back
+      outbox.enqueue({
+        id: `out-${userMessage.id}`,
+        messageId: userMessage.id,
+        conversationId: userMessage.conversationId,
+        turnId,
+        text: userMessage.text,
+        pair: dir,
+        createdAt: sentAt,
+        lastError: navigator.onLine && err instanceof Error ? err.message : undefined,
+      });
+      updateMessage(userMessage.id, { outboxStatus: 'queued' });
     } finally {
       setIsTranslatingText(false);
     }
@@ -292,11 +1095,13 @@ STRICT RULES:
     window.speechSynthesis.cancel();
     const utterance = new SpeechSynthesisUtterance(text);
     utterance.lang = lang || (/[а-яА-Я]/.test(text) ? 'ru-RU' : 'en-US');
+    utterance.volume = playbackSettings.volume;
+    utterance.rate = playbackSettings.rate;
     window.speechSynthesis.speak(utterance);
   };
 
   const chatEndRef = useRef<HTMLDivElement>(null);
-  useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages, liveTranscription]);
+  useEffect(() => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages, liveTranscription, shared.peerPartial]);
 
   const VolumeBars = () => {
     const bars = [1, 2, 3, 2];
@@ -310,6 +1115,127 @@ STRICT RULES:
     );
   };
 
+  const pressToTalk = (dir: LanguagePair) => {
+    if (pttTimerRef.current) {
+      clearTimeout(pttTimerRef.current);
+      pttTimerRef.current = null;
+    } else if (pttActiveRef.current) {
+      return;
+    }
+    pttActiveRef.current = true;
+    setIsTalking(true);
+    if (!isRecording || (liveMode === 'directed' && !isSamePair(direction, dir))) startSession(dir);
+  };
+
+  const releaseToTalk = () => {
+    if (!pttActiveRef.current || pttTimerRef.current) return;
+    setIsTalking(false);
+    // Keep streaming briefly so the last syllable isn't cut off
+    pttTimerRef.current = window.setTimeout(() => {
+      pttTimerRef.current = null;
+      pttActiveRef.current = false;
+    }, vadSettingsRef.current.pttTailMs);
+  };
+
+  const pttHandlersRef = useRef({ press: () => pressToTalk(direction), release: releaseToTalk });
+  pttHandlersRef.current = { press: () => pressToTalk(direction), release: releaseToTalk };
+
+  useEffect(() => {
+    if (vadSettings.inputMode !== 'push-to-talk') return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== vadSettings.pttKey || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      pttHandlersRef.current.press();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== vadSettings.pttKey) return;
+      pttHandlersRef.current.release();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [vadSettings.inputMode, vadSettings.pttKey]);
+
+  const updateVadSettings = (patch: Partial<VadSettings>) => {
+    if (patch.inputMode && patch.inputMode !== vadSettings.inputMode && isRecording) stopSession();
+    setVadSettings(prev => ({ ...prev, ...patch }));
+  };
+
+  // Text-only output is part of the Live setup, so switching it restarts the session
+  const applyPresenter = (open: boolean, settings: CaptionSettings) => {
+    if (isRecording && (open && settings.textOnly) !== sessionTextOnlyRef.current) stopSession();
+    setShowPresenter(open);
+    setCaptionSettings(settings);
+  };
+
+  const captionLines = buildCaptionLines(messages, liveTranscription, captionSettings.lineCount);
+
+  useEffect(() => {
+    if (!showPresenter) return;
+    const channel = openCaptionChannel(message => {
+      if (message.type === 'hello' && captionStateRef.current) channel.post({ type: 'state', state: captionStateRef.current });
+    });
+    captionChannelRef.current = channel;
+    return () => {
+      channel.post({ type: 'closed' });
+      channel.close();
+      captionChannelRef.current = null;
+    };
+  }, [showPresenter]);
+
+  useEffect(() => {
+    captionStateRef.current = { lines: captionLines, settings: captionSettings };
+    captionChannelRef.current?.post({ type: 'state', state: captionStateRef.current });
+  }, [messages, liveTranscription, captionSettings, showPresenter]);
+
+  const updateAudioDevices = (patch: Partial<AudioDeviceSettings>) => setAudioDeviceSettings(prev => ({ ...prev, ...patch }));
+
+  const renderDeviceSelect = (kind: 'inputDeviceId' | 'outputDeviceId', devices: MediaDeviceInfo[], fallbackLabel: string, disabled = false) => {
+    const selected = audioDeviceSettings[kind];
+    return (
+      <select
+        value={selected}
+        disabled={disabled}
+        onChange={(e) => updateAudioDevices({ [kind]: e.target.value })}
+        className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-[13px] font-bold disabled:opacity-50"
+      >
+        <option value="">System default</option>
+        {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `${fallbackLabel} ${i + 1}`}</option>)}
+        {selected && !devices.some(d => d.deviceId === selected) && <option value={selected}>Disconnected device</option>}
+      </select>
+    );
+  };
+
+  const renderFlagButton = (dir: LanguagePair) => {
+    const language = getLanguage(dir.source);
+    const isActive = isRecording && liveMode === 'directed' && isSamePair(direction, dir);
+    const isPushToTalk = vadSettings.inputMode === 'push-to-talk';
+    const pushToTalkProps = {
+      onPointerDown: (e: React.PointerEvent) => { e.preventDefault(); pressToTalk(dir); },
+      onPointerUp: releaseToTalk,
+      onPointerLeave: releaseToTalk,
+      onPointerCancel: releaseToTalk,
+      onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+    };
+    return (
+      <button
+        {...(isPushToTalk ? pushToTalkProps : { onClick: () => startSession(dir) })}
+        disabled={!isMasterEnabled}
+        title={`${language.name} → ${getLanguage(dir.target).name}${isPushToTalk ? ' · hold to talk' : ''}`}
+        className={`relative w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ${!isOnline || !isMasterEnabled ? 'grayscale opacity-10' : 'hover:scale-105 active:scale-95'} ${isActive ? `ring-[6px] ${status === 'Reconnecting' ? 'ring-amber-400/60 animate-pulse' : 'ring-indigo-500/30'} scale-110 shadow-2xl` : 'shadow-lg'}`}
+      >
+        {isActive && (!isPushToTalk || isTalking) && <VolumeBars />}
+        <LanguageFlag language={language} />
+        <div className="relative z-10">{isActive && !isPushToTalk ? <Square className="w-6 h-6 text-white fill-white" /> : <Mic className="w-7 h-7 text-white" />}</div>
+        <div className="absolute bottom-1 right-2 text-[7px] font-black text-white/60 drop-shadow-md">{language.badge}</div>
+      </button>
+    );
+  };
+
   return (
     <div className="flex flex-col h-screen bg-slate-100 text-slate-900 font-sans overflow-hidden">
       <header className="bg-white px-5 py-3.5 shadow-sm flex items-center justify-between z-10 border-b border-slate-200">
@@ -320,10 +1246,64 @@ STRICT RULES:
           <h1 className="text-lg font-black tracking-tight text-slate-800">Voice Match</h1>
         </div>
         <div className="flex items-center gap-2">
+          {outbox.items.length > 0 && (
+            <div className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-500">
+              <Clock className="w-3 h-3" />
+              {outbox.items.length} queued
+            </div>
+          )}
+          {Object.keys(downloadProgress).map(key => (
+            <div key={key} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600">
+              <Download className="w-3 h-3" />
+              {key} {Math.round(downloadProgress[key] * 100)}%
+            </div>
+          ))}
+          {(status === 'Connecting' || status === 'Reconnecting') && (
+            <div className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-amber-100 text-amber-700">
+              <RefreshCw className="w-3 h-3 animate-spin" />
+              {status}
+            </div>
+          )}
           <div className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${isOnline ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
             {isOnline ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
             {isOnline ? 'Online' : 'Offline'}
           </div>
+          {pwa.canInstall && (
+            <button onClick={pwa.promptInstall} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-indigo-600 text-white">
+              <MonitorDown className="w-3 h-3" />
+              Install
+            </button>
+          )}
+          <button onClick={replayLastTurn} disabled={!messages.some(m => m.sender === 'model')} title="Replay last translation" className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors disabled:opacity-30">
+            <RotateCcw className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setPlaybackSettings(prev => ({ ...prev, muted: !prev.muted }))}
+            title={playbackSettings.muted ? 'Voice muted: text only' : 'Mute translated voice'}
+            className={`p-2 hover:bg-slate-100 rounded-full transition-colors ${playbackSettings.muted ? 'text-red-500' : 'text-slate-400'}`}
+          >
+            {playbackSettings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+          </button>
+          <button onClick={() => audioFileInputRef.current?.click()} disabled={Boolean(fileImport)} title="Translate an audio file" className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors disabled:opacity-40">
+            <FileAudio className="w-5 h-5" />
+          </button>
+          <input
+            ref={audioFileInputRef}
+            type="file"
+            accept={AUDIO_FILE_ACCEPT}
+            onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) importAudioFile(file); }}
+            className="hidden"
+          />
+          <button
+            onClick={() => setShowShare(true)}
+            title={shared.room ? `Shared conversation ${shared.room.code}` : 'Share a conversation with another device'}
+            className={`p-2 hover:bg-slate-100 rounded-full transition-colors ${shared.status === 'reconnecting' ? 'text-amber-500 animate-pulse' : shared.room ? 'text-indigo-600' : 'text-slate-400'}`}
+          >
+            <QrCode className="w-5 h-5" />
+          </button>
+          <button onClick={() => setShowHistory(true)} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
+            <History className="w-5 h-5" />
+          </button>
           <button onClick={() => setShowSettings(true)} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 transition-colors">
             <Settings className="w-5 h-5" />
           </button>
@@ -331,7 +1311,7 @@ STRICT RULES:
       </header>
 
       <main className="flex-1 overflow-y-auto px-4 space-y-3 pb-64 pt-6 scroll-smooth bg-slate-50/50">
-        {messages.length === 0 && !liveTranscription.user && !liveTranscription.model ? (
+        {messages.length === 0 && !liveTranscription.user && !liveTranscription.model && !shared.peerPartial.user && !shared.peerPartial.model ? (
           <div className="h-full flex flex-col items-center justify-center text-slate-300 space-y-4">
             <div className="w-20 h-20 bg-white rounded-full flex items-center justify-center shadow-inner border border-slate-100">
               <MessageSquare className="w-8 h-8 opacity-10" />
@@ -342,20 +1322,82 @@ STRICT RULES:
           </div>
         ) : (
           <>
-            {messages.map((msg) => (
-              <div key={msg.id} className="flex flex-col items-center animate-in slide-in-from-bottom-2 duration-300">
-                <div className={`max-w-[95%] px-5 py-3 rounded-[1.5rem] shadow-sm border text-center transition-all ${
+            {messages.map((msg) => {
+              // Turns spoken in the pair's first language sit on the left, the other speaker's on the right
+              const side = msg.pair.source === pair.source ? 'left' : msg.pair.source === pair.target ? 'right' : 'center';
+              return (
+              <div key={msg.id} className={`flex flex-col animate-in slide-in-from-bottom-2 duration-300 ${side === 'left' ? 'items-start' : side === 'right' ? 'items-end' : 'items-center'}`}>
+                <div className={`max-w-[85%] px-5 py-3 rounded-[1.5rem] shadow-sm border transition-all ${side === 'left' ? 'text-left rounded-bl-md' : side === 'right' ? 'text-right rounded-br-md' : 'text-center'} ${
                   msg.sender === 'user' ? 'bg-white border-slate-200 text-slate-800' : 'bg-indigo-600 border-indigo-500 text-white'
                 }`}>
-                  <div className="flex items-center justify-center gap-3">
+                  <div className={`flex items-center gap-3 ${side === 'right' ? 'flex-row-reverse' : side === 'left' ? '' : 'justify-center'}`}>
                      <p className="text-[15px] leading-snug font-bold tracking-tight">{msg.text}</p>
-                     <button onClick={() => speakText(msg.text)} className={`p-1 rounded-full ${msg.sender === 'user' ? 'text-slate-300' : 'text-white/40'}`}>
+                     <button onClick={() => playMessage(msg)} title={msg.audio ? 'Play recording' : 'Read aloud'} className={`p-1 rounded-full ${msg.sender === 'user' ? 'text-slate-300' : 'text-white/40'}`}>
                       <Volume2 className="w-4 h-4" />
                      </button>
+                     {msg.audio && (
+                       <button onClick={() => downloadMessageAudio(msg)} title="Download WAV" className={`p-1 rounded-full ${msg.sender === 'user' ? 'text-slate-300' : 'text-white/40'}`}>
+                        <Download className="w-4 h-4" />
+                       </button>
+                     )}
+                     {!msg.outboxStatus && (
+                       <button onClick={() => setActionsMessageId(id => (id === msg.id ? null : msg.id))} title="More actions" className={`p-1 rounded-full ${msg.sender === 'user' ? 'text-slate-300' : 'text-white/40'}`}>
+                        <MoreHorizontal className="w-4 h-4" />
+                       </button>
+                     )}
                   </div>
                 </div>
+                {msg.outboxStatus === 'queued' && (
+                  <span className="mt-1 px-2 flex items-center gap-1.5 text-[10px] font-bold text-slate-400">
+                    <Clock className="w-3 h-3" />
+                    {isOnline ? 'Retrying' : 'Queued until online'}
+                    {(() => { const item = outbox.items.find(i => i.messageId === msg.id); return item && item.attempts > 0 ? ` · attempt ${item.attempts + 1}` : ''; })()}
+                    <button onClick={() => cancelQueued(msg.id)} className="ml-1 text-red-500 hover:underline">Cancel</button>
+                  </span>
+                )}
+                {msg.outboxStatus === 'cancelled' && (
+                  <span className="mt-1 px-2 text-[10px] font-bold text-slate-400 line-through">Not translated</span>
+                )}
+                {msg.outboxStatus === 'failed' && (
+                  <span className="mt-1 px-2 flex items-center gap-1 text-[10px] font-bold text-red-500">
+                    <AlertTriangle className="w-3 h-3" /> Not translated: {msg.outboxError}
+                  </span>
+                )}
+                {msg.glossaryViolations && (
+                  <span title={msg.glossaryViolations.join('\n')} className="mt-1 px-2 flex items-center gap-1 text-[10px] font-bold text-amber-600">
+                    <AlertTriangle className="w-3 h-3" /> Glossary: {msg.glossaryViolations.join('; ')}
+                  </span>
+                )}
+                {msg.engine && msg.sender === 'model' && (
+                  <span
+                    title={[msg.engine.label, msg.engine.fallbackReason && `Fallback: ${msg.engine.fallbackReason}`].filter(Boolean).join('\n')}
+                    className="mt-1 px-2 text-[9px] font-black uppercase tracking-widest text-slate-400"
+                  >
+                    {ENGINE_BADGES[msg.engine.kind]}
+                    {msg.engine.latencyMs !== undefined && ` · ${formatLatency(msg.engine.latencyMs)}`}
+                    {msg.engine.fallbackReason && <span className="text-amber-600"> · fallback</span>}
+                  </span>
+                )}
+                {msg.interrupted && (
+                  <span className="mt-1 px-2 text-[9px] font-black uppercase tracking-widest text-slate-400">Interrupted</span>
+                )}
+                {msg.detectedLang && msg.sender === 'user' && (
+                  <span className="mt-1 px-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                    {getLanguage(msg.detectedLang).badge} detected → {getLanguage(msg.pair.target).badge}
+                  </span>
+                )}
+                <MessageActions
+                  message={msg}
+                  open={actionsMessageId === msg.id}
+                  busy={messageBusy[msg.id]}
+                  onRetranslate={(text) => retranslateMessage(msg, text)}
+                  onBackTranslate={() => backTranslateMessage(msg)}
+                  onAlternatives={() => findAlternatives(msg)}
+                  onUseAlternative={(text) => reviseReply(msg, text)}
+                />
               </div>
-            ))}
+              );
+            })}
             {liveTranscription.user && (
               <div className="flex flex-col items-center opacity-40">
                 <div className="max-w-[95%] px-5 py-2.5 rounded-2xl border border-dashed border-slate-300 bg-white/40 text-slate-500 text-center italic">
@@ -370,6 +1412,14 @@ STRICT RULES:
                 </div>
               </div>
             )}
+            {(shared.peerPartial.user || shared.peerPartial.model) && (
+              <div className="flex flex-col items-end opacity-40">
+                <div className="max-w-[85%] px-5 py-2.5 rounded-2xl rounded-br-md border border-dashed border-slate-300 bg-white/40 text-right italic space-y-1">
+                  {shared.peerPartial.user && <p className="text-[14px] leading-tight font-medium text-slate-500">{shared.peerPartial.user}</p>}
+                  {shared.peerPartial.model && <p className="text-[14px] leading-tight font-medium text-indigo-500">{shared.peerPartial.model}</p>}
+                </div>
+              </div>
+            )}
           </>
         )}
         <div ref={chatEndRef} />
@@ -377,26 +1427,55 @@ STRICT RULES:
 
       <div className="fixed bottom-0 inset-x-0 p-6 z-20 pointer-events-none">
         <div className="max-w-md mx-auto flex flex-col items-center gap-4 pointer-events-auto">
+          {pwa.updateAvailable && (
+            <div className="w-full flex items-center gap-3 px-5 py-3 bg-indigo-50 border border-indigo-200 text-indigo-700 rounded-2xl shadow-lg animate-in slide-in-from-bottom-2">
+              <RefreshCw className="w-5 h-5 shrink-0" />
+              <p className="flex-1 text-[12px] font-bold leading-snug">A new version is available.</p>
+              <button onClick={pwa.applyUpdate} className="px-3 py-1 bg-indigo-600 text-white rounded-full text-[11px] font-black">Reload</button>
+            </div>
+          )}
+          {fileImport && (
+            <div className="w-full flex items-center gap-3 px-5 py-3 bg-white border border-slate-200 text-slate-700 rounded-2xl shadow-lg animate-in slide-in-from-bottom-2">
+              <FileAudio className="w-5 h-5 shrink-0 text-indigo-500" />
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <p className="text-[12px] font-bold leading-snug truncate">
+                  {fileImport.path ? `${fileImport.path === 'batch' ? 'Translating' : 'Streaming'} ${fileImport.name}` : `Decoding ${fileImport.name}`}
+                  {fileImport.path && ` · ${Math.round(fileImport.progress * 100)}%`}
+                </p>
+                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${fileImport.progress * 100}%` }} />
+                </div>
+              </div>
+              <button onClick={() => importAbortRef.current?.abort()} className="px-3 py-1 bg-slate-100 text-slate-600 rounded-full text-[11px] font-black">Cancel</button>
+            </div>
+          )}
+          {sessionError && (
+            <div className="w-full flex items-center gap-3 px-5 py-3 bg-red-50 border border-red-200 text-red-700 rounded-2xl shadow-lg animate-in slide-in-from-bottom-2">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <p className="flex-1 text-[12px] font-bold leading-snug">{sessionError}</p>
+              <button onClick={() => setSessionError(null)} className="p-1 text-red-400"><X className="w-4 h-4" /></button>
+            </div>
+          )}
           
           {showKeyboard && (
             <div className="w-full bg-white border border-slate-200 rounded-[2rem] p-3 shadow-2xl flex flex-col animate-in slide-in-from-bottom-4 ring-1 ring-black/5 overflow-hidden">
               <div className="flex items-center justify-between px-6 py-4 border-b border-slate-50 bg-slate-50/50">
                 <div className="flex items-center gap-6 w-full">
-                  <span className={`text-[11px] font-black uppercase tracking-wider transition-all duration-300 flex-1 text-center ${mode === TranslationMode.EN_TO_RU ? 'text-indigo-600' : 'text-slate-400 opacity-60'}`}>
-                    English
+                  <span className={`text-[11px] font-black uppercase tracking-wider transition-all duration-300 flex-1 text-center ${direction.source === pair.source ? 'text-indigo-600' : 'text-slate-400 opacity-60'}`}>
+                    {getLanguage(pair.source).name}
                   </span>
                   
                   <button 
-                    onClick={() => setMode(m => m === TranslationMode.EN_TO_RU ? TranslationMode.RU_TO_EN : TranslationMode.EN_TO_RU)}
+                    onClick={() => setDirection(reversePair)}
                     className="group relative w-12 h-12 flex items-center justify-center bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-lg shadow-indigo-100 hover:scale-110 active:scale-90 transition-all"
                     title="Change direction"
                   >
-                    <ArrowLeftRight className={`w-5 h-5 transition-transform duration-500 ${mode === TranslationMode.RU_TO_EN ? 'rotate-180' : ''}`} />
+                    <ArrowLeftRight className={`w-5 h-5 transition-transform duration-500 ${direction.source !== pair.source ? 'rotate-180' : ''}`} />
                     <div className="absolute inset-0 rounded-full bg-white/20 scale-0 group-active:scale-100 transition-transform duration-200"></div>
                   </button>
 
-                  <span className={`text-[11px] font-black uppercase tracking-wider transition-all duration-300 flex-1 text-center ${mode === TranslationMode.RU_TO_EN ? 'text-indigo-600' : 'text-slate-400 opacity-60'}`}>
-                    Russian
+                  <span className={`text-[11px] font-black uppercase tracking-wider transition-all duration-300 flex-1 text-center ${direction.source === pair.target ? 'text-indigo-600' : 'text-slate-400 opacity-60'}`}>
+                    {getLanguage(pair.target).name}
                   </span>
                 </div>
               </div>
@@ -405,7 +1484,7 @@ STRICT RULES:
                   autoFocus
                   value={inputText}
                   onChange={(e) => setInputText(e.target.value)}
-                  placeholder={mode === TranslationMode.EN_TO_RU ? "Enter text in English..." : "Введите текст на русском..."}
+                  placeholder={getLanguage(direction.source).placeholder}
                   className="flex-1 bg-transparent border-none focus:ring-0 p-4 text-base min-h-[56px] max-h-[150px] resize-none font-bold"
                   onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleTextTranslate(); } }}
                 />
@@ -416,46 +1495,43 @@ STRICT RULES:
             </div>
           )}
 
-          <div className="bg-white/95 backdrop-blur-2xl border border-white shadow-[0_20px_50px_rgba(0,0,0,0.15)] rounded-[3.5rem] p-3 flex items-center justify-between w-full ring-1 ring-slate-200/50">
-            <button
-              onClick={() => startSession(TranslationMode.EN_TO_RU)}
-              disabled={!isMasterEnabled}
-              className={`relative w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ${!isOnline || !isMasterEnabled ? 'grayscale opacity-10' : 'hover:scale-105 active:scale-95'} ${isRecording && mode === TranslationMode.EN_TO_RU ? 'ring-[6px] ring-indigo-500/30 scale-110 shadow-2xl' : 'shadow-lg'}`}
+          <div className="flex items-center gap-1 pl-3 pr-1 py-1 bg-white/95 backdrop-blur-xl border border-slate-200 rounded-full shadow-md">
+            <SlidersHorizontal className="w-3.5 h-3.5 text-indigo-500 shrink-0" />
+            <select
+              value={profile.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              title="Translation profile"
+              className="bg-transparent border-none focus:ring-0 py-0.5 pl-1 pr-6 text-[11px] font-black uppercase tracking-widest text-slate-600"
             >
-              {isRecording && mode === TranslationMode.EN_TO_RU && <VolumeBars />}
-              <div className="absolute inset-0 rounded-full overflow-hidden border border-black/10">
-                <div className="absolute inset-0 flex flex-col">
-                  <div className="h-1/2 bg-[#002664] w-1/2 z-10" />
-                  <div className="absolute inset-0 flex flex-col">
-                    {[...Array(13)].map((_, i) => <div key={i} className={`h-[7.7%] ${i % 2 === 0 ? 'bg-[#BD3D44]' : 'bg-white'}`} />)}
-                  </div>
-                </div>
-              </div>
-              <div className="relative z-10">{isRecording && mode === TranslationMode.EN_TO_RU ? <Square className="w-6 h-6 text-white fill-white" /> : <Mic className="w-7 h-7 text-white" />}</div>
-              <div className="absolute bottom-1 right-2 text-[7px] font-black text-white/60 drop-shadow-md">EN</div>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button onClick={() => setShowProfiles(true)} title="Edit profiles" className="p-1 rounded-full text-slate-400 hover:text-indigo-600">
+              <Settings className="w-3.5 h-3.5" />
             </button>
+          </div>
+
+          <div className="bg-white/95 backdrop-blur-2xl border border-white shadow-[0_20px_50px_rgba(0,0,0,0.15)] rounded-[3.5rem] p-3 flex items-center justify-between w-full ring-1 ring-slate-200/50">
+            {renderFlagButton(pair)}
 
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => startSession(pair, 'conversation')}
+                disabled={!isMasterEnabled}
+                title="Conversation mode: both speakers, language detected per turn"
+                className={`relative w-12 h-12 rounded-full flex items-center justify-center transition-all ${!isOnline || !isMasterEnabled ? 'opacity-20' : ''} ${isRecording && liveMode === 'conversation' ? `bg-indigo-600 text-white ring-4 ${status === 'Reconnecting' ? 'ring-amber-400/60 animate-pulse' : 'ring-indigo-500/30'}` : 'bg-slate-50 text-slate-400 border border-slate-100'}`}
+              >
+                {isRecording && liveMode === 'conversation' && <VolumeBars />}
+                {isRecording && liveMode === 'conversation' ? <Square className="w-4 h-4 fill-white" /> : <Users className="w-5 h-5" />}
+              </button>
               <button onClick={handleMasterToggle} className={`w-12 h-12 rounded-full flex items-center justify-center border-2 transition-all ${isMasterEnabled ? 'bg-green-50 text-green-600 border-green-200 shadow-sm' : 'bg-red-50 text-red-600 border-red-200 shadow-inner'}`}>
                 {isMasterEnabled ? <Unlock className="w-5 h-5" /> : <Lock className="w-5 h-5" />}
               </button>
-              <button onClick={() => { setShowKeyboard(!showKeyboard); if (isRecording) stopSession(); }} className={`w-12 h-12 rounded-full flex items-center justify-center ${showKeyboard ? 'bg-indigo-600 text-white shadow-indigo-200' : 'bg-slate-50 text-slate-400 border border-slate-100'}`}>
+              <button onClick={() => { setShowKeyboard(!showKeyboard); endConversation(); if (isRecording) stopSession(); }} className={`w-12 h-12 rounded-full flex items-center justify-center ${showKeyboard ? 'bg-indigo-600 text-white shadow-indigo-200' : 'bg-slate-50 text-slate-400 border border-slate-100'}`}>
                 {showKeyboard ? <X className="w-5 h-5" /> : <Keyboard className="w-5 h-5" />}
               </button>
             </div>
 
-            <button
-              onClick={() => startSession(TranslationMode.RU_TO_EN)}
-              disabled={!isMasterEnabled}
-              className={`relative w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ${!isOnline || !isMasterEnabled ? 'grayscale opacity-10' : 'hover:scale-105 active:scale-95'} ${isRecording && mode === TranslationMode.RU_TO_EN ? 'ring-[6px] ring-indigo-500/30 scale-110 shadow-2xl' : 'shadow-lg'}`}
-            >
-              {isRecording && mode === TranslationMode.RU_TO_EN && <VolumeBars />}
-              <div className="absolute inset-0 rounded-full overflow-hidden border border-black/10">
-                <div className="absolute inset-0 flex flex-col"><div className="h-1/3 bg-white" /><div className="h-1/3 bg-[#0039A6]" /><div className="h-1/3 bg-[#D52B1E]" /></div>
-              </div>
-              <div className="relative z-10">{isRecording && mode === TranslationMode.RU_TO_EN ? <Square className="w-6 h-6 text-white fill-white" /> : <Mic className="w-7 h-7 text-white" />}</div>
-              <div className="absolute bottom-1 right-2 text-[7px] font-black text-white/60 drop-shadow-md">RU</div>
-            </button>
+            {renderFlagButton(reversePair(pair))}
           </div>
         </div>
       </div>
@@ -468,20 +1544,227 @@ STRICT RULES:
               <button onClick={() => setShowSettings(false)} className="p-2 bg-slate-50 rounded-full"><X className="w-5 h-5" /></button>
             </div>
             <div className="p-6 space-y-4">
-              <button onClick={() => { setMessages([]); setShowSettings(false); }} className="w-full py-4 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-red-50 hover:text-red-600 transition-colors flex items-center justify-center gap-2">
-                <Trash2 className="w-4 h-4" /> Clear Translation History
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                <p className="text-[10px] font-black text-slate-400 uppercase mb-3 tracking-widest">Language Pair</p>
+                <div className="flex items-center gap-2">
+                  {(['source', 'target'] as const).map((side, i) => (
+                    <React.Fragment key={side}>
+                      {i === 1 && <ArrowLeftRight className="w-4 h-4 text-slate-300 shrink-0" />}
+                      <select
+                        value={pair[side]}
+                        onChange={(e) => handlePairChange(side, e.target.value as LanguageCode)}
+                        className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-[13px] font-bold text-slate-800"
+                      >
+                        {LANGUAGE_CODES.map(code => <option key={code} value={code}>{LANGUAGES[code].name}</option>)}
+                      </select>
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+              <button onClick={() => { setShowSettings(false); applyPresenter(true, captionSettings); }} className="w-full py-4 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-indigo-50 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2">
+                <Presentation className="w-4 h-4" /> Presenter Captions
+              </button>
+              <button onClick={() => { setShowSettings(false); setShowGlossary(true); }} className="w-full py-4 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-indigo-50 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2">
+                <BookOpen className="w-4 h-4" /> Glossary ({getLanguage(pair.source).badge} ↔ {getLanguage(pair.target).badge})
+              </button>
+              <button onClick={() => { setShowSettings(false); setShowProfiles(true); }} className="w-full py-4 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-indigo-50 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2">
+                <SlidersHorizontal className="w-4 h-4" /> Translation Profiles ({profile.name})
+              </button>
+              <button onClick={() => { setShowSettings(false); setShowHistory(true); }} className="w-full py-4 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-indigo-50 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2">
+                <History className="w-4 h-4" /> Conversation History
+              </button>
+              <button onClick={() => { setMessages([]); recentTranscriptsRef.current = []; endConversation(); setShowSettings(false); }} className="w-full py-4 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-red-50 hover:text-red-600 transition-colors flex items-center justify-center gap-2">
+                <Trash2 className="w-4 h-4" /> Clear Chat Screen
               </button>
               <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
                 <p className="text-[10px] font-black text-slate-400 uppercase mb-2 tracking-widest">Engine Status</p>
                 <div className="flex justify-between text-[12px] font-bold">
-                  <span>Gemini 2.5 Live</span>
-                  <span className={isRecording ? 'text-green-600' : 'text-slate-400'}>{isRecording ? 'STREAMS ACTIVE' : 'IDLE'}</span>
+                  <span>{liveEngine.label}</span>
+                  <span className={status === 'Reconnecting' ? 'text-amber-600' : isRecording ? 'text-green-600' : 'text-slate-400'}>{status === 'Reconnecting' ? 'RECONNECTING' : isRecording ? 'STREAMS ACTIVE' : 'IDLE'}</span>
                 </div>
+                <label className="flex items-center justify-between mt-3 text-[12px] font-bold text-slate-600">
+                  Reconnect attempts
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={maxReconnectAttempts}
+                    onChange={(e) => setMaxReconnectAttempts(Math.max(0, Math.min(20, Number(e.target.value) || 0)))}
+                    className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 text-right"
+                  />
+                </label>
+                <label className="flex items-center justify-between mt-3 text-[12px] font-bold text-slate-600">
+                  Keep turn audio
+                  <input type="checkbox" checked={keepTurnAudio} onChange={(e) => setKeepTurnAudio(e.target.checked)} />
+                </label>
+                <button onClick={() => { setShowSettings(false); setShowDiagnostics(true); }} className="w-full flex items-center justify-between mt-3 text-[12px] font-bold text-indigo-600 hover:underline">
+                  <span className="flex items-center gap-1"><Activity className="w-3.5 h-3.5" /> Diagnostics</span>
+                  {averageMs(telemetry.session.firstAudio) !== undefined && <span className="text-slate-500">first audio ~{formatLatency(averageMs(telemetry.session.firstAudio)!)}</span>}
+                </button>
+              </div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">On-device Translation</p>
+                {[pair, reversePair(pair)].map(dir => {
+                  const key = pairKey(dir);
+                  const availability = translatorAvailability[key];
+                  return (
+                    <div key={key} className="flex items-center justify-between text-[12px] font-bold text-slate-600">
+                      <span>{getLanguage(dir.source).badge} → {getLanguage(dir.target).badge}</span>
+                      {availability === 'downloadable' ? (
+                        <button onClick={() => downloadTranslator(dir)} className="flex items-center gap-1 text-indigo-600 hover:underline">
+                          <Download className="w-3.5 h-3.5" /> Download
+                        </button>
+                      ) : (
+                        <span className={availability === 'available' ? 'text-green-600' : 'text-slate-400'}>
+                          {availability ? TRANSLATOR_STATUS[availability] : '…'}
+                          {availability === 'downloading' && key in downloadProgress && ` ${Math.round(downloadProgress[key] * 100)}%`}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Audio Devices</p>
+                <label className="block space-y-1 text-[12px] font-bold text-slate-600">
+                  <span>Microphone</span>
+                  {renderDeviceSelect('inputDeviceId', audioDevices.inputs, 'Microphone')}
+                </label>
+                <label className="block space-y-1 text-[12px] font-bold text-slate-600">
+                  <span>Speaker{supportsOutputSelection() ? '' : ' (not supported in this browser)'}</span>
+                  {renderDeviceSelect('outputDeviceId', audioDevices.outputs, 'Speaker', !supportsOutputSelection())}
+                </label>
+                {([['echoCancellation', 'Echo cancellation'], ['noiseSuppression', 'Noise suppression'], ['autoGainControl', 'Auto gain']] as const).map(([key, label]) => (
+                  <label key={key} className="flex items-center justify-between text-[12px] font-bold text-slate-600">
+                    {label}
+                    <input type="checkbox" checked={audioDeviceSettings[key]} onChange={(e) => updateAudioDevices({ [key]: e.target.checked })} />
+                  </label>
+                ))}
+                <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                  Input gain {Math.round(audioDeviceSettings.inputGain * 100)}%
+                  <input type="range" min={0} max={3} step={0.1} value={audioDeviceSettings.inputGain} onChange={(e) => updateAudioDevices({ inputGain: Number(e.target.value) })} className="w-28" />
+                </label>
+              </div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Playback</p>
+                <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                  Volume {Math.round(playbackSettings.volume * 100)}%
+                  <input type="range" min={0} max={1} step={0.05} value={playbackSettings.volume} onChange={(e) => setPlaybackSettings(prev => ({ ...prev, volume: Number(e.target.value) }))} className="w-28" />
+                </label>
+                <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                  Speed
+                  <select
+                    value={playbackSettings.rate}
+                    onChange={(e) => setPlaybackSettings(prev => ({ ...prev, rate: Number(e.target.value) }))}
+                    className="w-28 bg-white border border-slate-200 rounded-lg px-2 py-1 text-right"
+                  >
+                    {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between text-[12px] font-bold text-slate-600">
+                  Text only (mute voice)
+                  <input type="checkbox" checked={playbackSettings.muted} onChange={(e) => setPlaybackSettings(prev => ({ ...prev, muted: e.target.checked }))} />
+                </label>
+              </div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Voice Input</p>
+                <select
+                  value={vadSettings.inputMode}
+                  onChange={(e) => updateVadSettings({ inputMode: e.target.value as InputMode })}
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-[13px] font-bold"
+                >
+                  <option value="continuous">Always streaming</option>
+                  <option value="vad">Stream only speech</option>
+                  <option value="push-to-talk">Push to talk</option>
+                </select>
+                {vadSettings.inputMode === 'vad' && (
+                  <>
+                    <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                      Threshold {vadSettings.thresholdDb} dB
+                      <input type="range" min={-80} max={-20} value={vadSettings.thresholdDb} onChange={(e) => updateVadSettings({ thresholdDb: Number(e.target.value) })} className="w-28" />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                      Voice band {Math.round(vadSettings.minVoiceBandRatio * 100)}%
+                      <input type="range" min={0} max={1} step={0.05} value={vadSettings.minVoiceBandRatio} onChange={(e) => updateVadSettings({ minVoiceBandRatio: Number(e.target.value) })} className="w-28" />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                      Pre-roll {vadSettings.preRollMs} ms
+                      <input type="range" min={0} max={1000} step={50} value={vadSettings.preRollMs} onChange={(e) => updateVadSettings({ preRollMs: Number(e.target.value) })} className="w-28" />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                      Hang-over {vadSettings.hangoverMs} ms
+                      <input type="range" min={200} max={3000} step={100} value={vadSettings.hangoverMs} onChange={(e) => updateVadSettings({ hangoverMs: Number(e.target.value) })} className="w-28" />
+                    </label>
+                  </>
+                )}
+                {vadSettings.inputMode === 'push-to-talk' && (
+                  <>
+                    <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                      Hotkey
+                      <input
+                        readOnly
+                        value={vadSettings.pttKey}
+                        onKeyDown={(e) => { if (e.code === 'Tab') return; e.preventDefault(); updateVadSettings({ pttKey: e.code }); }}
+                        title="Focus and press a key"
+                        className="w-28 bg-white border border-slate-200 rounded-lg px-2 py-1 text-right"
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                      Release tail {vadSettings.pttTailMs} ms
+                      <input type="range" min={0} max={1000} step={50} value={vadSettings.pttTailMs} onChange={(e) => updateVadSettings({ pttTailMs: Number(e.target.value) })} className="w-28" />
+                    </label>
+                  </>
+                )}
+              </div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Transcript Filters</p>
+                {TRANSCRIPT_STAGES.map(stage => (
+                  <label key={stage.id} title={stage.description} className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                    {stage.label}
+                    <input type="checkbox" checked={transcriptFilters[stage.id]} onChange={(e) => setTranscriptFilters(prev => ({ ...prev, [stage.id]: e.target.checked }))} />
+                  </label>
+                ))}
+                {transcriptFilters.dedupe && (
+                  <label className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                    Duplicate window {transcriptFilters.dedupeWindowMs / 1000} s
+                    <input type="range" min={1000} max={60000} step={1000} value={transcriptFilters.dedupeWindowMs} onChange={(e) => setTranscriptFilters(prev => ({ ...prev, dedupeWindowMs: Number(e.target.value) }))} className="w-28" />
+                  </label>
+                )}
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {showShare && (
+        <SharePanel
+          status={shared.status}
+          room={shared.room}
+          participants={shared.participants}
+          participantId={shared.participantId}
+          error={shared.error}
+          defaultLang={pair.source}
+          initialCode={new URLSearchParams(window.location.search).get('join') ?? undefined}
+          onCreate={shared.create}
+          onJoin={shared.join}
+          onLeave={leaveSharedConversation}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+      {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} onOpen={openConversation} />}
+      {showPresenter && (
+        <CaptionView
+          lines={captionLines}
+          settings={captionSettings}
+          onSettingsChange={(patch) => applyPresenter(true, { ...captionSettings, ...patch })}
+          onOpenSecondScreen={() => window.open(`${window.location.pathname}?captions`, 'voice-match-captions', 'popup')}
+          onClose={() => applyPresenter(false, captionSettings)}
+          reserveBottom
+        />
+      )}
+      {showDiagnostics && <DiagnosticsPanel telemetry={telemetry} onResetSession={telemetry.resetSession} onClose={() => setShowDiagnostics(false)} />}
+      {showProfiles && <ProfilesPanel profiles={profiles} activeId={profile.id} onChange={updateProfiles} onSelect={selectProfile} onClose={() => setShowProfiles(false)} />}
+      {showGlossary && <GlossaryPanel pair={pair} entries={glossary} onChange={setGlossary} onClose={() => setShowGlossary(false)} />}
     </div>
   );
 };
@@ -0,0 +1,29 @@
+import React, { useState, useEffect } from 'react';
+import CaptionView from './CaptionView';
+import { CaptionState, openCaptionChannel } from '../utils/captionChannel';
+
+/** Second-screen window (`?captions`): mirrors whatever the presenting window broadcasts. */
+const CaptionDisplay: React.FC = () => {
+  const [state, setState] = useState<CaptionState | null>(null);
+
+  useEffect(() => {
+    const channel = openCaptionChannel(message => {
+      if (message.type === 'state') setState(message.state);
+      else if (message.type === 'closed') setState(null);
+    });
+    channel.post({ type: 'hello' });
+    return channel.close;
+  }, []);
+
+  if (!state) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-black text-white/40 text-[12px] font-black uppercase tracking-[0.3em]">
+        Waiting for presenter mode…
+      </div>
+    );
+  }
+
+  return <CaptionView lines={state.lines} settings={state.settings} />;
+};
+
+export default CaptionDisplay;
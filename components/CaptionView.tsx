@@ -0,0 +1,64 @@
+import React from 'react';
+import { X, MonitorUp, Maximize } from 'lucide-react';
+import { CaptionLine, CaptionSettings } from '../utils/captionChannel';
+
+interface CaptionViewProps {
+  lines: CaptionLine[];
+  settings: CaptionSettings;
+  /** Controller-only: without it the view is a bare mirror for a second screen. */
+  onSettingsChange?: (patch: Partial<CaptionSettings>) => void;
+  onOpenSecondScreen?: () => void;
+  onClose?: () => void;
+  /** Leaves room at the bottom for the mic controls on the controlling device. */
+  reserveBottom?: boolean;
+}
+
+const toggleFullscreen = () => {
+  if (document.fullscreenElement) document.exitFullscreen();
+  else document.documentElement.requestFullscreen().catch(() => {});
+};
+
+const CaptionView: React.FC<CaptionViewProps> = ({ lines, settings, onSettingsChange, onOpenSecondScreen, onClose, reserveBottom }) => {
+  const { fontSize, dark, showSource } = settings;
+  const muted = dark ? 'text-white/40' : 'text-slate-400';
+
+  return (
+    <div
+      onDoubleClick={toggleFullscreen}
+      className={`fixed inset-0 z-[15] flex flex-col ${dark ? 'bg-black text-white' : 'bg-white text-slate-900'}`}
+    >
+      {onSettingsChange && (
+        <div className={`flex flex-wrap items-center gap-4 px-6 py-3 text-[11px] font-black uppercase tracking-widest ${muted}`}>
+          <label className="flex items-center gap-2">
+            Size
+            <input type="range" min={24} max={120} step={4} value={fontSize} onChange={(e) => onSettingsChange({ fontSize: Number(e.target.value) })} className="w-24" />
+          </label>
+          <label className="flex items-center gap-2">
+            Lines
+            <input type="number" min={1} max={8} value={settings.lineCount} onChange={(e) => onSettingsChange({ lineCount: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })} className="w-12 bg-transparent border border-current rounded px-1" />
+          </label>
+          <label className="flex items-center gap-2"><input type="checkbox" checked={dark} onChange={(e) => onSettingsChange({ dark: e.target.checked })} /> Dark</label>
+          <label className="flex items-center gap-2"><input type="checkbox" checked={showSource} onChange={(e) => onSettingsChange({ showSource: e.target.checked })} /> Source</label>
+          <label className="flex items-center gap-2"><input type="checkbox" checked={settings.textOnly} onChange={(e) => onSettingsChange({ textOnly: e.target.checked })} /> Text only</label>
+          <div className="flex-1" />
+          {onOpenSecondScreen && <button onClick={onOpenSecondScreen} title="Open on a second screen" className="p-2 rounded-full hover:bg-white/10"><MonitorUp className="w-5 h-5" /></button>}
+          <button onClick={toggleFullscreen} title="Full screen" className="p-2 rounded-full hover:bg-white/10"><Maximize className="w-5 h-5" /></button>
+          {onClose && <button onClick={onClose} title="Leave presenter mode" className="p-2 rounded-full hover:bg-white/10"><X className="w-5 h-5" /></button>}
+        </div>
+      )}
+
+      <div className={`flex-1 flex flex-col justify-end gap-[0.6em] px-[6vw] overflow-hidden ${reserveBottom ? 'pb-40' : 'pb-[6vh]'}`} style={{ fontSize }}>
+        {lines.map(line => (
+          <div key={line.id} className={line.partial ? 'opacity-60' : ''}>
+            <p className="font-black leading-tight tracking-tight">{line.translation || '…'}</p>
+            {showSource && line.source && (
+              <p className={`mt-[0.2em] font-bold leading-snug ${muted}`} style={{ fontSize: '0.45em' }}>{line.source}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionView;
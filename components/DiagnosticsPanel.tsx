@@ -0,0 +1,127 @@
+import React from 'react';
+import { X, Download, RotateCcw, Activity } from 'lucide-react';
+import { ConnectionTelemetry, TelemetrySnapshot, TurnTelemetry, UsageTotals, averageMs, dayKey, emptyTotals, formatLatency, toTelemetryJson } from '../utils/telemetry';
+import { getLanguage } from '../utils/languages';
+import { downloadFile } from '../utils/exportFormats';
+
+interface DiagnosticsPanelProps {
+  telemetry: TelemetrySnapshot;
+  onResetSession: () => void;
+  onClose: () => void;
+}
+
+const RECENT_EVENTS = 8;
+const DAYS_SHOWN = 7;
+
+const formatSeconds = (seconds: number) => (seconds < 60 ? `${seconds.toFixed(1)} s` : `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} s`);
+const formatAverage = (ms: number | undefined) => (ms === undefined ? '—' : formatLatency(ms));
+
+const TotalsRows: React.FC<{ totals: UsageTotals }> = ({ totals }) => {
+  const disconnects = Object.keys(totals.disconnects).reduce((sum, reason) => sum + totals.disconnects[reason], 0);
+  const rows: [string, string][] = [
+    ['Turns', totals.interruptedTurns ? `${totals.turns} (${totals.interruptedTurns} interrupted)` : String(totals.turns)],
+    ['Speech → first audio', formatAverage(averageMs(totals.firstAudio))],
+    ['Speech → turn complete', formatAverage(averageMs(totals.turnComplete))],
+    ['Audio sent', formatSeconds(totals.audioSentSeconds)],
+    ['Audio received', formatSeconds(totals.audioReceivedSeconds)],
+    ...Object.keys(totals.textByEngine).map((engine): [string, string] => [`Text · ${engine}`, `${formatAverage(averageMs(totals.textByEngine[engine]))} × ${totals.textByEngine[engine].count}`]),
+    ['Text failures', String(totals.textFailures)],
+    ['Connect failures', String(totals.connectFailures)],
+    ['Dropped sessions', String(disconnects)],
+  ];
+  return (
+    <div className="space-y-1">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between gap-3 text-[12px] font-bold">
+          <span className="text-slate-500 truncate">{label}</span>
+          <span className="text-slate-800 shrink-0">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ telemetry, onResetSession, onClose }) => {
+  const today = telemetry.daily[dayKey(Date.now())] || emptyTotals();
+  const days = Object.keys(telemetry.daily).sort().reverse().slice(0, DAYS_SHOWN);
+  const turns = telemetry.events.filter((e): e is TurnTelemetry => e.type === 'turn').slice(-RECENT_EVENTS).reverse();
+  const connections = telemetry.events.filter((e): e is ConnectionTelemetry => e.type === 'connection').slice(-RECENT_EVENTS).reverse();
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    downloadFile(`voice-match-diagnostics-${stamp}.json`, toTelemetryJson(telemetry), 'application/json');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm px-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white rounded-[2rem] shadow-2xl overflow-hidden animate-in zoom-in-95">
+        <div className="p-6 border-b border-slate-50 flex items-center justify-between">
+          <h2 className="text-xl font-black text-slate-800">Diagnostics</h2>
+          <div className="flex items-center gap-2">
+            <button onClick={handleExport} title="Export JSON" className="p-2 bg-slate-50 rounded-full text-slate-500"><Download className="w-5 h-5" /></button>
+            <button onClick={onClose} className="p-2 bg-slate-50 rounded-full"><X className="w-5 h-5" /></button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Since {new Date(telemetry.sessionStartedAt).toLocaleTimeString()}</p>
+              <button onClick={onResetSession} title="Reset session totals" className="text-slate-400 hover:text-indigo-600"><RotateCcw className="w-3.5 h-3.5" /></button>
+            </div>
+            <TotalsRows totals={telemetry.session} />
+          </div>
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Today</p>
+            <TotalsRows totals={today} />
+          </div>
+          {days.length > 0 && (
+            <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Daily Usage</p>
+              {days.map(day => {
+                const totals = telemetry.daily[day];
+                return (
+                  <div key={day} className="flex items-center justify-between gap-3 text-[12px] font-bold">
+                    <span className="text-slate-500">{day}</span>
+                    <span className="text-slate-800">{totals.turns} turns · {formatSeconds(totals.audioSentSeconds + totals.audioReceivedSeconds)} audio</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {turns.length > 0 && (
+            <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Recent Turns</p>
+              {turns.map((turn, i) => (
+                <div key={`${turn.at}-${i}`} className="flex items-center justify-between gap-3 text-[12px] font-bold">
+                  <span className="text-slate-500">{new Date(turn.at).toLocaleTimeString()} · {getLanguage(turn.pair.source).badge} → {getLanguage(turn.pair.target).badge}</span>
+                  <span className={turn.interrupted ? 'text-amber-600' : 'text-slate-800'}>
+                    {formatAverage(turn.firstAudioMs)} / {formatAverage(turn.turnCompleteMs)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {connections.length > 0 && (
+            <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Connection Events</p>
+              {connections.map((event, i) => (
+                <div key={`${event.at}-${i}`} className="text-[12px] font-bold">
+                  <span className={event.event === 'closed' ? 'text-slate-500' : 'text-red-600'}>{new Date(event.at).toLocaleTimeString()} · {event.event}</span>
+                  <p className="text-slate-700 break-words">{event.reason || 'no reason given'}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {telemetry.events.length === 0 && (
+            <div className="flex flex-col items-center text-slate-300 py-6 space-y-3">
+              <Activity className="w-8 h-8 opacity-30" />
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-60">Nothing recorded yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,121 @@
+import React, { useState, useRef } from 'react';
+import { X, Plus, Trash2, Upload, Download, BookOpen, ArrowRight } from 'lucide-react';
+import { GlossaryEntry, LanguagePair } from '../types';
+import { getLanguage } from '../utils/languages';
+import { entriesForPair, isKeepTerm, toGlossaryCsv, parseGlossaryCsv, mergeGlossary, GlossaryImportError } from '../utils/glossary';
+import { downloadFile } from '../utils/exportFormats';
+
+interface GlossaryPanelProps {
+  pair: LanguagePair;
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  onClose: () => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ pair, entries, onChange, onClose }) => {
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [keepAsIs, setKeepAsIs] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const source = getLanguage(pair.source);
+  const target = getLanguage(pair.target);
+  const visible = entriesForPair(entries, pair);
+
+  const handleAdd = () => {
+    const from = sourceTerm.trim();
+    const to = keepAsIs ? from : targetTerm.trim();
+    if (!from || !to) return;
+    onChange(mergeGlossary(entries, [{ id: `g-${Date.now()}`, pair, sourceTerm: from, targetTerm: to }]));
+    setSourceTerm('');
+    setTargetTerm('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(mergeGlossary(entries, parseGlossaryCsv(await file.text(), pair)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof GlossaryImportError ? err.message : 'Could not read this CSV file.');
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(`glossary-${pair.source}-${pair.target}.csv`, toGlossaryCsv(visible), 'text/csv');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm px-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white rounded-[2rem] shadow-2xl overflow-hidden animate-in zoom-in-95">
+        <div className="p-6 border-b border-slate-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-black text-slate-800">Glossary</h2>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{source.name} ↔ {target.name}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} title="Import CSV" className="p-2 bg-slate-50 rounded-full text-slate-500"><Upload className="w-5 h-5" /></button>
+            <button onClick={handleExport} disabled={visible.length === 0} title="Export CSV" className="p-2 bg-slate-50 rounded-full text-slate-500 disabled:opacity-30"><Download className="w-5 h-5" /></button>
+            <button onClick={onClose} className="p-2 bg-slate-50 rounded-full"><X className="w-5 h-5" /></button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        </div>
+
+        <div className="p-6 space-y-3 border-b border-slate-50">
+          {error && (
+            <div className="flex items-center justify-between gap-2 px-4 py-3 bg-red-50 text-red-600 rounded-2xl text-[12px] font-bold">
+              {error}
+              <button onClick={() => setError(null)}><X className="w-4 h-4" /></button>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <input
+              value={sourceTerm}
+              onChange={(e) => setSourceTerm(e.target.value)}
+              placeholder={`${source.name} term`}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[13px] font-bold"
+            />
+            <ArrowRight className="w-4 h-4 text-slate-300 shrink-0" />
+            <input
+              value={keepAsIs ? sourceTerm : targetTerm}
+              onChange={(e) => setTargetTerm(e.target.value)}
+              disabled={keepAsIs}
+              placeholder={`${target.name} term`}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[13px] font-bold disabled:opacity-50"
+            />
+            <button onClick={handleAdd} className="w-9 h-9 shrink-0 flex items-center justify-center bg-indigo-600 text-white rounded-full"><Plus className="w-4 h-4" /></button>
+          </div>
+          <label className="flex items-center gap-2 text-[12px] font-bold text-slate-600">
+            <input type="checkbox" checked={keepAsIs} onChange={(e) => setKeepAsIs(e.target.checked)} />
+            Never translate (product names, codes)
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {visible.length === 0 && (
+            <div className="flex flex-col items-center text-slate-300 py-8 space-y-3">
+              <BookOpen className="w-8 h-8 opacity-30" />
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-60">No terms for this pair</p>
+            </div>
+          )}
+          {visible.map(entry => (
+            <div key={entry.id} className="flex items-center gap-2 px-4 py-2.5 bg-slate-50 rounded-xl border border-slate-100 text-[13px] font-bold">
+              <span className="text-[9px] font-black text-slate-400 w-12 shrink-0">{getLanguage(entry.pair.source).badge}→{getLanguage(entry.pair.target).badge}</span>
+              <span className="flex-1 truncate text-slate-800">{entry.sourceTerm}</span>
+              {isKeepTerm(entry)
+                ? <span className="flex-1 text-[10px] font-black uppercase tracking-widest text-amber-600">keep as is</span>
+                : <span className="flex-1 truncate text-indigo-600">{entry.targetTerm}</span>}
+              <button onClick={() => onChange(entries.filter(e => e.id !== entry.id))} className="p-1 text-slate-300 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
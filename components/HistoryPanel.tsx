@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, Search, Trash2, Pencil, Check, Mic, Keyboard, FileAudio, QrCode, History, Download, Upload } from 'lucide-react';
+import { ChatMessage, Conversation } from '../types';
+import { getLanguage } from '../utils/languages';
+import { searchConversations, getConversationMessages, deleteConversation, saveConversation, importConversation, SearchHit } from '../utils/historyDb';
+import { EXPORT_FORMATS, ExportFormat, exportConversation, exportFilename, downloadFile, parseConversationJson, ImportError } from '../utils/exportFormats';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+  onOpen: (conversation: Conversation, messages: ChatMessage[]) => void;
+}
+
+const highlight = (text: string, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{part}</mark> : part
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose, onOpen }) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async (q: string) => {
+    try {
+      setHits(await searchConversations(q));
+    } catch (err) {
+      console.error('History search failed:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => refresh(query), 200);
+    return () => clearTimeout(timer);
+  }, [query, refresh]);
+
+  const handleOpen = async (conversation: Conversation) => {
+    onOpen(conversation, await getConversationMessages(conversation.id));
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+    await deleteConversation(conversation.id);
+    refresh(query);
+  };
+
+  const handleRename = async (conversation: Conversation) => {
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (!title || title === conversation.title) return;
+    await saveConversation({ ...conversation, title });
+    refresh(query);
+  };
+
+  const handleExport = async (conversation: Conversation, format: ExportFormat) => {
+    setExportingId(null);
+    const stored = await getConversationMessages(conversation.id);
+    const { mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+    downloadFile(exportFilename(conversation, format), exportConversation(format, conversation, stored), mimeType);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { conversation, messages } = parseConversationJson(await file.text());
+      await importConversation(conversation, messages);
+      setImportError(null);
+      setQuery('');
+      refresh('');
+    } catch (err) {
+      setImportError(err instanceof ImportError ? err.message : 'Could not import this file.');
+      if (!(err instanceof ImportError)) console.error('Import failed:', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm px-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white rounded-[2rem] shadow-2xl overflow-hidden animate-in zoom-in-95">
+        <div className="p-6 border-b border-slate-50 flex items-center justify-between">
+          <h2 className="text-xl font-black text-slate-800">Conversations</h2>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} title="Import JSON" className="p-2 bg-slate-50 rounded-full text-slate-500"><Upload className="w-5 h-5" /></button>
+            <button onClick={onClose} className="p-2 bg-slate-50 rounded-full"><X className="w-5 h-5" /></button>
+          </div>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+        <div className="px-6 pt-4 space-y-3">
+          {importError && (
+            <div className="flex items-center justify-between gap-2 px-4 py-3 bg-red-50 text-red-600 rounded-2xl text-[12px] font-bold">
+              {importError}
+              <button onClick={() => setImportError(null)}><X className="w-4 h-4" /></button>
+            </div>
+          )}
+          <div className="flex items-center gap-2 bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search original and translated text..."
+              className="flex-1 bg-transparent border-none focus:outline-none text-[13px] font-bold"
+            />
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {!isLoading && hits.length === 0 && (
+            <div className="flex flex-col items-center text-slate-300 py-10 space-y-3">
+              <History className="w-8 h-8 opacity-30" />
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-60">{query ? 'No matches' : 'No saved conversations'}</p>
+            </div>
+          )}
+          {hits.map(({ conversation, matches }) => (
+            <div key={conversation.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <div className="flex items-center gap-2">
+                {conversation.kind === 'live' ? <Mic className="w-3.5 h-3.5 text-indigo-500 shrink-0" /> : conversation.kind === 'file' ? <FileAudio className="w-3.5 h-3.5 text-indigo-500 shrink-0" /> : conversation.kind === 'shared' ? <QrCode className="w-3.5 h-3.5 text-indigo-500 shrink-0" /> : <Keyboard className="w-3.5 h-3.5 text-indigo-500 shrink-0" />}
+                {editingId === conversation.id ? (
+                  <input
+                    autoFocus
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onBlur={() => handleRename(conversation)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleRename(conversation); if (e.key === 'Escape') setEditingId(null); }}
+                    className="flex-1 bg-white border border-slate-200 rounded-lg px-2 py-1 text-[13px] font-bold"
+                  />
+                ) : (
+                  <button onClick={() => handleOpen(conversation)} className="flex-1 text-left text-[13px] font-black text-slate-800 truncate">
+                    {highlight(conversation.title, query)}
+                  </button>
+                )}
+                {editingId === conversation.id ? (
+                  <button onMouseDown={(e) => e.preventDefault()} onClick={() => handleRename(conversation)} className="p-1.5 text-green-600"><Check className="w-4 h-4" /></button>
+                ) : (
+                  <button onClick={() => { setEditingId(conversation.id); setEditTitle(conversation.title); }} className="p-1.5 text-slate-300 hover:text-slate-600"><Pencil className="w-4 h-4" /></button>
+                )}
+                <button onClick={() => setExportingId(exportingId === conversation.id ? null : conversation.id)} className={`p-1.5 hover:text-slate-600 ${exportingId === conversation.id ? 'text-indigo-600' : 'text-slate-300'}`}><Download className="w-4 h-4" /></button>
+                <button onClick={() => handleDelete(conversation)} className="p-1.5 text-slate-300 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+              </div>
+              {exportingId === conversation.id && (
+                <div className="grid grid-cols-2 gap-2 my-2">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button key={format} onClick={() => handleExport(conversation, format)} className="py-2 px-3 bg-white border border-slate-200 rounded-xl text-[11px] font-black text-slate-600 hover:text-indigo-600 hover:border-indigo-200">
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button onClick={() => handleOpen(conversation)} className="w-full text-left mt-1">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {getLanguage(conversation.pair.source).badge} → {getLanguage(conversation.pair.target).badge} · {conversation.messageCount} messages · {new Date(conversation.updatedAt).toLocaleString()}
+                </p>
+                {matches.length > 0 ? (
+                  <div className="mt-2 space-y-1">
+                    {matches.slice(0, 3).map(m => (
+                      <p key={m.id} className={`text-[12px] leading-snug truncate ${m.sender === 'user' ? 'text-slate-600' : 'text-indigo-600'}`}>{highlight(m.text, query)}</p>
+                    ))}
+                    {matches.length > 3 && <p className="text-[10px] font-bold text-slate-400">+{matches.length - 3} more</p>}
+                  </div>
+                ) : (
+                  <p className="mt-2 text-[12px] leading-snug text-slate-500 truncate">{conversation.preview}</p>
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Language } from '../types';
+
+const LanguageFlag: React.FC<{ language: Language }> = ({ language }) => {
+  const { stripes, vertical, canton, emblem } = language.flag;
+  return (
+    <div className="absolute inset-0 rounded-full overflow-hidden border border-black/10">
+      <div className={`absolute inset-0 flex ${vertical ? 'flex-row' : 'flex-col'}`}>
+        {stripes.map((color, i) => <div key={i} className="flex-1" style={{ backgroundColor: color }} />)}
+      </div>
+      {canton && <div className="absolute top-0 left-0 h-1/2 w-1/2 z-10" style={{ backgroundColor: canton }} />}
+      {emblem && (
+        <div className="absolute top-1.5 left-3 text-[15px] leading-none z-10" style={{ color: emblem.color }}>{emblem.char}</div>
+      )}
+    </div>
+  );
+};
+
+export default LanguageFlag;
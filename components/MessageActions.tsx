@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Pencil, Check, X, Copy, Share2, Undo2, Shuffle, Loader2 } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+export type MessageAction = 'retranslate' | 'back-translate' | 'alternatives';
+
+interface MessageActionsProps {
+  message: ChatMessage;
+  /** Whether the action bar is shown; results already fetched are always shown. */
+  open: boolean;
+  busy?: MessageAction;
+  /** Source messages only: replaces the recognized text and translates it again. */
+  onRetranslate: (text: string) => void;
+  onBackTranslate: () => void;
+  onAlternatives: () => void;
+  onUseAlternative: (text: string) => void;
+}
+
+const STYLE_LABELS = { formal: 'Formal', casual: 'Casual' };
+
+const shareText = async (text: string) => {
+  if (navigator.share) {
+    try {
+      await navigator.share({ text });
+      return;
+    } catch (err) {
+      // Dismissing the share sheet is not a failure
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+    }
+  }
+  await navigator.clipboard?.writeText(text);
+};
+
+const MessageActions: React.FC<MessageActionsProps> = ({ message, open, busy, onRetranslate, onBackTranslate, onAlternatives, onUseAlternative }) => {
+  const [editText, setEditText] = useState<string | null>(null);
+  const isSource = message.sender === 'user';
+  const actionClass = 'flex items-center gap-1 px-2.5 py-1 rounded-full bg-white border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 disabled:opacity-40';
+
+  const saveEdit = () => {
+    const text = editText?.trim();
+    setEditText(null);
+    if (text && text !== message.text) onRetranslate(text);
+  };
+
+  return (
+    <>
+      {message.revisions && message.revisions.length > 0 && (
+        <span
+          title={message.revisions.map(r => `${new Date(r.editedAt).toLocaleTimeString()}: ${r.text}`).join('\n')}
+          className="mt-1 px-2 text-[9px] font-black uppercase tracking-widest text-slate-400"
+        >
+          Edited{message.revisions.length > 1 ? ` ×${message.revisions.length}` : ''}
+        </span>
+      )}
+      {message.backTranslation && (
+        <span className="mt-1 px-2 max-w-[85%] flex items-start gap-1 text-[11px] font-bold text-slate-500">
+          <Undo2 className="w-3 h-3 mt-0.5 shrink-0" /> {message.backTranslation}
+        </span>
+      )}
+      {message.alternatives && message.alternatives.length > 0 && (
+        <div className="mt-1 max-w-[85%] space-y-1">
+          {message.alternatives.map(alt => (
+            <button key={alt.style} onClick={() => onUseAlternative(alt.text)} title="Use this phrasing" className="w-full text-left px-3 py-1.5 rounded-xl bg-white border border-slate-200 text-[12px] font-bold text-slate-700 hover:border-indigo-300">
+              <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500 mr-2">{STYLE_LABELS[alt.style]}</span>
+              {alt.text}
+            </button>
+          ))}
+        </div>
+      )}
+      {editText !== null && (
+        <div className="mt-2 w-full max-w-[85%] flex items-end gap-2">
+          <textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); saveEdit(); }
+              if (e.key === 'Escape') setEditText(null);
+            }}
+            autoFocus
+            rows={2}
+            className="flex-1 bg-white border border-slate-200 rounded-2xl px-4 py-2 text-[14px] font-bold resize-none"
+          />
+          <button onClick={saveEdit} title="Save and translate again" className="p-2 bg-indigo-600 text-white rounded-full"><Check className="w-4 h-4" /></button>
+          <button onClick={() => setEditText(null)} title="Cancel" className="p-2 bg-slate-100 text-slate-500 rounded-full"><X className="w-4 h-4" /></button>
+        </div>
+      )}
+      {open && editText === null && (
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          {isSource ? (
+            <button onClick={() => setEditText(message.text)} disabled={Boolean(busy)} className={actionClass}>
+              {busy === 'retranslate' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Pencil className="w-3 h-3" />} Edit
+            </button>
+          ) : (
+            <>
+              <button onClick={onBackTranslate} disabled={Boolean(busy)} className={actionClass}>
+                {busy === 'back-translate' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Undo2 className="w-3 h-3" />} Back-translate
+              </button>
+              <button onClick={onAlternatives} disabled={Boolean(busy)} className={actionClass}>
+                {busy === 'alternatives' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Shuffle className="w-3 h-3" />} Alternatives
+              </button>
+            </>
+          )}
+          <button onClick={() => navigator.clipboard?.writeText(message.text).catch(() => {})} className={actionClass}>
+            <Copy className="w-3 h-3" /> Copy
+          </button>
+          <button onClick={() => shareText(message.text).catch(err => console.error('Share failed:', err))} className={actionClass}>
+            <Share2 className="w-3 h-3" /> Share
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MessageActions;
@@ -0,0 +1,191 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Plus, Trash2, Upload, Download, Check } from 'lucide-react';
+import { Formality, LanguageCode, TranslationProfile } from '../types';
+import { LANGUAGE_CODES, getLanguage } from '../utils/languages';
+import { FORMALITY_LABELS, ProfileImportError, mergeProfiles, newProfile, parseProfilesJson, toProfilesJson } from '../utils/translationProfiles';
+import { LIVE_MODELS, LIVE_VOICES, TEXT_MODELS } from '../engines';
+import { downloadFile } from '../utils/exportFormats';
+
+interface ProfilesPanelProps {
+  profiles: TranslationProfile[];
+  activeId: string;
+  onChange: (profiles: TranslationProfile[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-[13px] font-bold text-slate-800';
+const labelClass = 'block space-y-1 text-[12px] font-bold text-slate-600';
+
+interface DraftFieldProps {
+  value: string;
+  onCommit: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+  className: string;
+}
+
+/** Text field that reports its value when editing ends, not on every keystroke, since edits to the active profile restart a running session. */
+const DraftField: React.FC<DraftFieldProps> = ({ value, onCommit, multiline, placeholder, className }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+  return multiline ? (
+    <textarea value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={commit} rows={2} placeholder={placeholder} className={className} />
+  ) : (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      placeholder={placeholder}
+      className={className}
+    />
+  );
+};
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ profiles, activeId, onChange, onSelect, onClose }) => {
+  const [editingId, setEditingId] = useState(activeId);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const editing = profiles.find(p => p.id === editingId) ?? profiles[0];
+
+  const update = (patch: Partial<TranslationProfile>) => onChange(profiles.map(p => (p.id === editing.id ? { ...p, ...patch } : p)));
+
+  const setVoice = (lang: LanguageCode, voice: string) => {
+    const { [lang]: _, ...voices } = editing.voices;
+    update({ voices: voice ? { ...voices, [lang]: voice } : voices });
+  };
+
+  const handleAdd = () => {
+    const created = newProfile(editing, `${editing.name} copy`);
+    onChange([...profiles, created]);
+    setEditingId(created.id);
+  };
+
+  const handleDelete = () => {
+    const rest = profiles.filter(p => p.id !== editing.id);
+    onChange(rest);
+    setEditingId(rest[0].id);
+    if (editing.id === activeId) onSelect(rest[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfilesJson(await file.text());
+      onChange(mergeProfiles(profiles, imported));
+      if (imported.length) setEditingId(imported[0].id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof ProfileImportError ? err.message : 'Could not read this file.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm px-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white rounded-[2rem] shadow-2xl overflow-hidden animate-in zoom-in-95">
+        <div className="p-6 border-b border-slate-50 flex items-center justify-between">
+          <h2 className="text-xl font-black text-slate-800">Translation Profiles</h2>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} title="Import JSON" className="p-2 bg-slate-50 rounded-full text-slate-500"><Upload className="w-5 h-5" /></button>
+            <button onClick={() => downloadFile('voice-match-profiles.json', toProfilesJson(profiles), 'application/json')} title="Export JSON" className="p-2 bg-slate-50 rounded-full text-slate-500"><Download className="w-5 h-5" /></button>
+            <button onClick={onClose} className="p-2 bg-slate-50 rounded-full"><X className="w-5 h-5" /></button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="flex items-center justify-between gap-2 px-4 py-3 bg-red-50 text-red-600 rounded-2xl text-[12px] font-bold">
+              {error}
+              <button onClick={() => setError(null)}><X className="w-4 h-4" /></button>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-1.5">
+            {profiles.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setEditingId(p.id)}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-[11px] font-black border ${p.id === editing.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-600 border-slate-100'}`}
+              >
+                {p.id === activeId && <Check className="w-3 h-3" />}
+                {p.name}
+              </button>
+            ))}
+            <button onClick={handleAdd} title="New profile based on this one" className="w-7 h-7 flex items-center justify-center bg-slate-50 border border-slate-100 text-slate-500 rounded-full"><Plus className="w-4 h-4" /></button>
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <label className={labelClass}>
+              <span>Name</span>
+              <DraftField key={editing.id} value={editing.name} onCommit={(name) => update({ name })} className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              <span>Tone</span>
+              <DraftField key={editing.id} value={editing.tone} onCommit={(tone) => update({ tone })} placeholder="e.g. warm and concise" className={fieldClass} />
+            </label>
+            <label className={labelClass}>
+              <span>Form of address</span>
+              <select value={editing.formality} onChange={(e) => update({ formality: e.target.value as Formality })} className={fieldClass}>
+                {(Object.keys(FORMALITY_LABELS) as Formality[]).map(f => <option key={f} value={f}>{FORMALITY_LABELS[f]}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              <span>Domain</span>
+              <DraftField key={editing.id} value={editing.domain} onCommit={(domain) => update({ domain })} multiline placeholder="e.g. a pharmacy counter" className={`${fieldClass} resize-none`} />
+            </label>
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Models</p>
+            <label className={labelClass}>
+              <span>Live</span>
+              <select value={editing.liveModel} onChange={(e) => update({ liveModel: e.target.value })} className={fieldClass}>
+                {LIVE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              <span>Text</span>
+              <select value={editing.textModel} onChange={(e) => update({ textModel: e.target.value })} className={fieldClass}>
+                {TEXT_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Live Voice</p>
+            {LANGUAGE_CODES.map(lang => (
+              <label key={lang} className="flex items-center justify-between gap-3 text-[12px] font-bold text-slate-600">
+                {getLanguage(lang).name}
+                <select value={editing.voices[lang] ?? ''} onChange={(e) => setVoice(lang, e.target.value)} className="w-40 bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-[12px] font-bold">
+                  <option value="">Default ({getLanguage(lang).voice})</option>
+                  {LIVE_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onSelect(editing.id)}
+              disabled={editing.id === activeId}
+              className="flex-1 py-3 bg-indigo-600 text-white rounded-2xl font-black text-sm disabled:opacity-40"
+            >
+              {editing.id === activeId ? 'In use' : 'Use this profile'}
+            </button>
+            <button onClick={handleDelete} disabled={profiles.length < 2} title="Delete profile" className="p-3 bg-slate-50 border border-slate-100 text-slate-400 hover:text-red-600 rounded-2xl disabled:opacity-30">
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { X, QrCode, LogOut, Copy, RefreshCw } from 'lucide-react';
+import { LanguageCode } from '../types';
+import { LANGUAGE_CODES, getLanguage } from '../utils/languages';
+import { encodeQrCode } from '../utils/qrCode';
+import { PAIRING_CODE_LENGTH, Participant, normalizePairingCode } from '../utils/relayProtocol';
+import { SharedRoom, SharedStatus } from '../hooks/useSharedSession';
+
+interface SharePanelProps {
+  status: SharedStatus;
+  room: SharedRoom | null;
+  participants: Participant[];
+  participantId: string;
+  error: string | null;
+  defaultLang: LanguageCode;
+  /** Pairing code from a scanned join link. */
+  initialCode?: string;
+  onCreate: (lang: LanguageCode) => void;
+  onJoin: (code: string, lang: LanguageCode) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+// Light margin around the code, in modules, that scanners need to find it
+const QUIET_ZONE = 4;
+
+const joinLink = (code: string) => `${window.location.origin}${window.location.pathname}?join=${code}`;
+
+const QrImage: React.FC<{ text: string }> = ({ text }) => {
+  const modules = useMemo(() => encodeQrCode(text), [text]);
+  const size = modules.length + QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} shapeRendering="crispEdges" className="w-48 h-48 rounded-2xl border border-slate-100">
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#1e293b" />
+    </svg>
+  );
+};
+
+const SharePanel: React.FC<SharePanelProps> = ({ status, room, participants, participantId, error, defaultLang, initialCode, onCreate, onJoin, onLeave, onClose }) => {
+  const [lang, setLang] = useState<LanguageCode>(room?.lang ?? defaultLang);
+  const [code, setCode] = useState(initialCode ? normalizePairingCode(initialCode) : '');
+  const busy = status === 'connecting';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm px-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white rounded-[2rem] shadow-2xl overflow-hidden animate-in zoom-in-95">
+        <div className="p-6 border-b border-slate-50 flex items-center justify-between">
+          <h2 className="text-xl font-black text-slate-800">Shared Conversation</h2>
+          <button onClick={onClose} className="p-2 bg-slate-50 rounded-full"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="px-4 py-3 bg-red-50 border border-red-200 text-red-700 rounded-2xl text-[12px] font-bold">{error}</div>
+          )}
+          {room ? (
+            <>
+              <div className="flex flex-col items-center gap-3">
+                <QrImage text={joinLink(room.code)} />
+                <button
+                  onClick={() => navigator.clipboard?.writeText(joinLink(room.code)).catch(() => {})}
+                  title="Copy join link"
+                  className="flex items-center gap-2 text-2xl font-black tracking-[0.3em] text-slate-800"
+                >
+                  {room.code}
+                  <Copy className="w-4 h-4 text-slate-300" />
+                </button>
+                <p className="text-[11px] font-bold text-slate-400 text-center">Scan the code or enter it on the other device.</p>
+              </div>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Participants</p>
+                  {status === 'reconnecting' && (
+                    <span className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-amber-600">
+                      <RefreshCw className="w-3 h-3 animate-spin" /> Reconnecting
+                    </span>
+                  )}
+                </div>
+                {participants.map(p => (
+                  <div key={p.id} className="flex items-center justify-between gap-3 text-[12px] font-bold">
+                    <span className="text-slate-700">{p.id === participantId ? 'This device' : 'Other device'} · {getLanguage(p.lang).name}</span>
+                    <span className={p.online ? 'text-green-600' : 'text-slate-400'}>{p.online ? 'Online' : 'Away'}</span>
+                  </div>
+                ))}
+                {participants.length < 2 && <p className="text-[12px] font-bold text-slate-400">Waiting for the other device…</p>}
+              </div>
+              <button onClick={onLeave} className="w-full py-3 bg-slate-50 text-slate-800 rounded-2xl font-black text-sm border border-slate-100 hover:bg-red-50 hover:text-red-600 transition-colors flex items-center justify-center gap-2">
+                <LogOut className="w-4 h-4" /> Leave conversation
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">I speak</p>
+                <select value={lang} onChange={(e) => setLang(e.target.value as LanguageCode)} className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-[13px] font-bold">
+                  {LANGUAGE_CODES.map(c => <option key={c} value={c}>{getLanguage(c).name}</option>)}
+                </select>
+                <p className="text-[11px] font-bold text-slate-400">Each device listens to its own speaker and reads out what the other one says.</p>
+              </div>
+              <button
+                onClick={() => onCreate(lang)}
+                disabled={busy}
+                className="w-full py-3 bg-indigo-600 text-white rounded-2xl font-black text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {busy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <QrCode className="w-4 h-4" />} Start and show code
+              </button>
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Join with a code</p>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={code}
+                    onChange={(e) => setCode(normalizePairingCode(e.target.value).slice(0, PAIRING_CODE_LENGTH))}
+                    placeholder="ABC234"
+                    className="flex-1 min-w-0 bg-white border border-slate-200 rounded-xl px-3 py-2 text-[15px] font-black tracking-[0.3em] uppercase"
+                  />
+                  <button
+                    onClick={() => onJoin(code, lang)}
+                    disabled={busy || code.length !== PAIRING_CODE_LENGTH}
+                    className="px-4 py-2 bg-slate-800 text-white rounded-xl font-black text-sm disabled:opacity-40"
+                  >
+                    Join
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,67 @@
+import { LanguagePair } from '../types';
+import { pairKey } from '../utils/languages';
+import { TranslationEngine, TextTranslationRequest } from './types';
+
+// Chrome's built-in Translator API: one on-device model per language pair, downloaded on first use
+const getTranslatorApi = () => (globalThis as any).Translator;
+
+export type PairAvailability = 'unavailable' | 'downloadable' | 'downloading' | 'available';
+
+export interface DownloadProgress {
+  pair: LanguagePair;
+  /** Fraction of the model downloaded, 0–1. */
+  loaded: number;
+}
+
+const progressListeners = new Set<(progress: DownloadProgress) => void>();
+const translators = new Map<string, Promise<any>>();
+
+export const onTranslatorDownloadProgress = (listener: (progress: DownloadProgress) => void) => {
+  progressListeners.add(listener);
+  return () => { progressListeners.delete(listener); };
+};
+
+export async function getTranslatorAvailability(pair: LanguagePair): Promise<PairAvailability> {
+  const api = getTranslatorApi();
+  if (!api) return 'unavailable';
+  try {
+    return await api.availability({ sourceLanguage: pair.source, targetLanguage: pair.target });
+  } catch {
+    return 'unavailable';
+  }
+}
+
+/**
+ * Returns the translator for `pair`, creating it on first use. Creating a translator whose model
+ * still has to be downloaded must happen in response to a user gesture.
+ */
+export function prepareTranslator(pair: LanguagePair): Promise<any> {
+  const key = pairKey(pair);
+  let translator = translators.get(key);
+  if (!translator) {
+    translator = getTranslatorApi().create({
+      sourceLanguage: pair.source,
+      targetLanguage: pair.target,
+      monitor: (m: EventTarget) => m.addEventListener('downloadprogress', (e: any) => {
+        progressListeners.forEach(listener => listener({ pair, loaded: e.loaded }));
+      }),
+    });
+    translator.catch(() => translators.delete(key));
+    translators.set(key, translator);
+  }
+  return translator;
+}
+
+/** Only used for pairs whose model is already on the device, and for requests without prompt `instructions` or a chosen `model`. */
+export const createBrowserTranslatorEngine = (): TranslationEngine => ({
+  id: 'browser-translator',
+  label: 'On-device translator',
+  kind: 'on-device',
+  ignores: ['instructions', 'model'],
+  isAvailable: async (pair) => (pair ? (await getTranslatorAvailability(pair)) === 'available' : Boolean(getTranslatorApi())),
+
+  translateText: async ({ text, pair }: TextTranslationRequest) => {
+    const translator = await prepareTranslator(pair);
+    return (await translator.translate(text)).trim();
+  },
+});
@@ -0,0 +1,127 @@
+import { PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { groupSegments, samplesToMs, splitOnSilence } from '../utils/audioFile';
+import { AudioTranslationRequest, AudioTranslationSegment, LiveSession, LiveSessionOptions, TranslationEngine } from './types';
+
+export type FileTranslationPath = 'stream' | 'batch';
+
+/** Recordings longer than this go through the batch path when an engine offers one. */
+export const BATCH_THRESHOLD_MS = 5 * 60 * 1000;
+/** Longest stretch of audio sent in a single batch request. */
+const BATCH_MAX_SECONDS = 120;
+// Utterances are fed to Live in 100 ms chunks at twice real time
+const STREAM_CHUNK_MS = 100;
+const STREAM_SPEED = 2;
+const TURN_TIMEOUT_MS = 30000;
+
+export interface FileTranslationCallbacks {
+  /** Fraction of the recording processed, 0–1. */
+  onProgress: (fraction: number) => void;
+  /** Called for each utterance as soon as its translation is known; offsets are into the recording. */
+  onSegment: (segment: AudioTranslationSegment) => void;
+  signal: AbortSignal;
+}
+
+export const abortError = () => new DOMException('Import cancelled', 'AbortError');
+
+export const chooseFilePath = (pcm: Int16Array, batchEngine?: TranslationEngine): FileTranslationPath =>
+  batchEngine?.translateAudio && samplesToMs(pcm.length) > BATCH_THRESHOLD_MS ? 'batch' : 'stream';
+
+/**
+ * Plays a recording into a text-only Live session one utterance at a time, delimiting each with
+ * startActivity/endActivity and waiting for its turn to complete, so every translation can be
+ * tied to where it was spoken in the file.
+ */
+export async function streamRecording(
+  engine: TranslationEngine,
+  pcm: Int16Array,
+  live: Omit<LiveSessionOptions, 'manualActivity' | 'textOnly'>,
+  { onProgress, onSegment, signal }: FileTranslationCallbacks,
+): Promise<void> {
+  const utterances = splitOnSilence(pcm);
+  const stop = new AbortController();
+  let failure: Error = abortError();
+  const fail = (err: Error) => {
+    if (stop.signal.aborted) return;
+    failure = err;
+    stop.abort();
+  };
+  const onAbort = () => fail(abortError());
+  signal.addEventListener('abort', onAbort);
+
+  // Resolves true when `register`'s callback fires and false after `ms`; rejects once the import stops
+  const until = (ms: number, register?: (done: () => void) => void) => new Promise<boolean>((resolve, reject) => {
+    if (stop.signal.aborted) return reject(failure);
+    const settle = (value: boolean) => {
+      clearTimeout(timer);
+      stop.signal.removeEventListener('abort', onStop);
+      resolve(value);
+    };
+    const onStop = () => {
+      clearTimeout(timer);
+      reject(failure);
+    };
+    const timer = setTimeout(() => settle(false), ms);
+    register?.(() => settle(true));
+    stop.signal.addEventListener('abort', onStop, { once: true });
+  });
+
+  let turn = { source: '', translation: '' };
+  let turnComplete: (() => void) | null = null;
+  let session: LiveSession | null = null;
+  try {
+    session = await engine.connectLive!({ ...live, manualActivity: true, textOnly: true }, {
+      onOpen: () => {},
+      onAudio: () => {},
+      onInputTranscription: text => { turn.source += text; },
+      onOutputTranscription: text => { turn.translation += text; },
+      onTurnComplete: () => turnComplete?.(),
+      onInterrupted: () => {},
+      onError: message => fail(new Error(message)),
+      onClose: reason => fail(new Error(`Voice channel closed${reason ? `: ${reason}` : ''}`)),
+    });
+    if (stop.signal.aborted) throw failure;
+
+    const chunkSamples = (STREAM_CHUNK_MS / 1000) * PCM_SAMPLE_RATE;
+    for (const utterance of utterances) {
+      turn = { source: '', translation: '' };
+      session.startActivity();
+      for (let offset = utterance.start; offset < utterance.end; offset += chunkSamples) {
+        session.sendAudio(pcm.subarray(offset, Math.min(utterance.end, offset + chunkSamples)));
+        onProgress(Math.min(utterance.end, offset + chunkSamples) / pcm.length);
+        await until(STREAM_CHUNK_MS / STREAM_SPEED);
+      }
+      const completed = until(TURN_TIMEOUT_MS, done => { turnComplete = done; });
+      session.endActivity();
+      const inTime = await completed;
+      turnComplete = null;
+      if (!inTime) throw new Error('Timed out waiting for a translation');
+      if (turn.translation.trim() === '' && turn.source.trim() === '') continue;
+      onSegment({ startMs: samplesToMs(utterance.start), endMs: samplesToMs(utterance.end), source: turn.source.trim(), translation: turn.translation.trim() });
+    }
+    onProgress(1);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    // Our own close must not be reported as a failure
+    stop.abort();
+    session?.close();
+  }
+}
+
+/** Sends a recording to the engine's batch audio translation in stretches of up to two minutes, cut at pauses. */
+export async function batchTranslateRecording(
+  engine: TranslationEngine,
+  pcm: Int16Array,
+  request: Omit<AudioTranslationRequest, 'pcm'>,
+  { onProgress, onSegment, signal }: FileTranslationCallbacks,
+): Promise<void> {
+  const stretches = groupSegments(splitOnSilence(pcm), BATCH_MAX_SECONDS * PCM_SAMPLE_RATE);
+  for (const stretch of stretches) {
+    if (signal.aborted) throw abortError();
+    const offsetMs = samplesToMs(stretch.start);
+    const segments = await engine.translateAudio!({ ...request, pcm: pcm.subarray(stretch.start, stretch.end) });
+    if (signal.aborted) throw abortError();
+    segments.forEach(s => onSegment({ ...s, startMs: s.startMs + offsetMs, endMs: s.endMs + offsetMs }));
+    onProgress(stretch.end / pcm.length);
+  }
+  onProgress(1);
+}
@@ -0,0 +1,83 @@
+import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { pcmToBlob } from '../utils/audioUtils';
+import { TranslationEngine, LiveSessionOptions, LiveEvents, LiveSession } from './types';
+import { fetchLiveToken } from './tokenProxy';
+import { DEFAULT_LIVE_MODEL, LIVE_TEXT_MODEL } from './models';
+
+// Hand over to a fresh session this long before the token stops working
+const TOKEN_RENEW_MARGIN_MS = 30 * 1000;
+
+/**
+ * Each session is opened with a single-use ephemeral token from the token server. Before the token
+ * expires (or when the server announces it is going away) the session reports itself closed so the
+ * app's reconnect logic opens a new one with a new token.
+ */
+export const createGeminiLiveEngine = (proxyUrl: string): TranslationEngine => ({
+  id: 'gemini-live',
+  label: 'Gemini 2.5 Live',
+  kind: 'cloud',
+  isAvailable: async () => navigator.onLine,
+
+  connectLive: async (options: LiveSessionOptions, events: LiveEvents): Promise<LiveSession> => {
+    const { token, expiresAt } = await fetchLiveToken(proxyUrl);
+    // Ephemeral tokens are only accepted by the v1alpha API
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    let renewTimer: number | undefined;
+    let ended = false;
+    const end = (reason: string, planned = false) => {
+      if (ended) return;
+      ended = true;
+      clearTimeout(renewTimer);
+      events.onClose(reason, planned);
+    };
+
+    const session = await ai.live.connect({
+      model: options.textOnly ? LIVE_TEXT_MODEL : options.model ?? DEFAULT_LIVE_MODEL,
+      config: {
+        ...(options.textOnly
+          ? { responseModalities: [Modality.TEXT] }
+          : {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice } },
+              },
+              outputAudioTranscription: {},
+            }),
+        systemInstruction: options.systemInstruction,
+        inputAudioTranscription: {},
+        realtimeInputConfig: options.manualActivity ? { automaticActivityDetection: { disabled: true } } : undefined,
+      },
+      callbacks: {
+        onopen: events.onOpen,
+        onmessage: async (m: LiveServerMessage) => {
+          const audioData = m.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData) await events.onAudio(audioData);
+          if (m.serverContent?.inputTranscription?.text) events.onInputTranscription(m.serverContent.inputTranscription.text);
+          if (m.serverContent?.outputTranscription?.text) events.onOutputTranscription(m.serverContent.outputTranscription.text);
+          if (options.textOnly) m.serverContent?.modelTurn?.parts?.forEach(p => p.text && events.onOutputTranscription(p.text));
+          if (m.serverContent?.interrupted) events.onInterrupted();
+          if (m.serverContent?.turnComplete) events.onTurnComplete();
+          if (m.goAway) end('Server is ending the session', true);
+        },
+        onerror: (e) => {
+          clearTimeout(renewTimer);
+          events.onError(e.message);
+        },
+        onclose: (e) => end(e.reason),
+      },
+    });
+    renewTimer = window.setTimeout(() => end('Session token expired', true), Math.max(0, expiresAt - Date.now() - TOKEN_RENEW_MARGIN_MS));
+
+    return {
+      sendAudio: (pcm) => session.sendRealtimeInput({ media: pcmToBlob(pcm) }),
+      endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+      startActivity: () => session.sendRealtimeInput({ activityStart: {} }),
+      endActivity: () => session.sendRealtimeInput({ activityEnd: {} }),
+      close: () => {
+        ended = true;
+        clearTimeout(renewTimer);
+        session.close();
+      },
+    };
+  },
+});
@@ -0,0 +1,22 @@
+import { TranslationEngine, TextTranslationRequest, AudioTranslationRequest, AudioTranslationSegment } from './types';
+import { postToProxy } from './tokenProxy';
+import { encode, encodeWav, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+
+/** Gemini text translation through the token server, which adds the key and applies rate limits. */
+export const createGeminiTextEngine = (proxyUrl: string): TranslationEngine => ({
+  id: 'gemini-text',
+  label: 'Gemini 2.5 Flash',
+  kind: 'cloud',
+  isAvailable: async () => navigator.onLine,
+
+  translateText: async (request: TextTranslationRequest) => {
+    const { text } = await postToProxy<{ text: string }>(proxyUrl, '/api/translate', request);
+    return text;
+  },
+
+  translateAudio: async ({ pcm, pair, instructions = [], model }: AudioTranslationRequest) => {
+    const audio = encode(encodeWav(pcm, PCM_SAMPLE_RATE));
+    const { segments } = await postToProxy<{ segments: AudioTranslationSegment[] }>(proxyUrl, '/api/translate-audio', { audio, pair, instructions, model });
+    return segments;
+  },
+});
@@ -0,0 +1,78 @@
+import { TranslationEngine, TextTranslationRequest, TextRequestOption } from './types';
+import { createGeminiLiveEngine } from './geminiLive';
+import { createGeminiTextEngine } from './geminiText';
+import { createOnDeviceEngine } from './onDevice';
+import { createBrowserTranslatorEngine } from './browserTranslator';
+import { createMockEngine } from './mockEngine';
+import { DEFAULT_TEXT_MODEL } from './models';
+
+export * from './types';
+export * from './fileTranslation';
+export * from './models';
+export { ProxyError, isPermanentFailure } from './tokenProxy';
+export { getTranslatorAvailability, prepareTranslator, onTranslatorDownloadProgress } from './browserTranslator';
+export type { PairAvailability, DownloadProgress } from './browserTranslator';
+
+const mockUrl = import.meta.env.VITE_MOCK_ENGINE_URL as string | undefined;
+// Where server/tokenServer.ts is reachable; empty means same origin (the dev server proxies /api)
+const tokenServerUrl = (import.meta.env.VITE_TOKEN_SERVER_URL as string | undefined) ?? '';
+
+/** Engine for Live voice sessions. Set VITE_MOCK_ENGINE_URL to run against the local mock server instead of Gemini. */
+export const liveEngine: TranslationEngine = mockUrl ? createMockEngine(mockUrl) : createGeminiLiveEngine(tokenServerUrl);
+
+const cloudTextEngine = mockUrl ? createMockEngine(mockUrl) : createGeminiTextEngine(tokenServerUrl);
+
+/** Engines for keyboard translation, tried in order until one is available and succeeds. */
+export const textEngines: TranslationEngine[] = mockUrl
+  ? [cloudTextEngine]
+  : [createBrowserTranslatorEngine(), createOnDeviceEngine(), cloudTextEngine];
+
+/** Engine for batch translation of imported recordings. */
+export const audioEngine: TranslationEngine = cloudTextEngine;
+
+/** Engine for alternative phrasings, which needs a model that follows style instructions. */
+export const phrasingEngine: TranslationEngine = cloudTextEngine;
+
+export interface TextTranslationResult {
+  text: string;
+  engine: TranslationEngine;
+  latencyMs: number;
+  /** Why the engines ahead of `engine` were not used; absent when the first choice answered. */
+  fallbackReason?: string;
+}
+
+const IGNORED_OPTION_LABELS: Record<TextRequestOption, string> = {
+  instructions: 'the glossary or profile style',
+  model: 'the profile\'s text model',
+};
+
+// Engines without a model choice stand in for the default one; only a different choice rules them out
+const requestSets = (request: TextTranslationRequest, option: TextRequestOption) =>
+  option === 'model' ? Boolean(request.model) && request.model !== DEFAULT_TEXT_MODEL : Boolean(request.instructions?.length);
+
+export async function translateWithFallback(request: TextTranslationRequest, engines: TranslationEngine[] = textEngines): Promise<TextTranslationResult> {
+  let lastError: unknown = new Error('No text translation engine is available');
+  const skipped: string[] = [];
+  for (const engine of engines) {
+    if (!engine.translateText) continue;
+    const ignored = (engine.ignores || []).filter(option => requestSets(request, option));
+    if (ignored.length) {
+      skipped.push(`${engine.label} cannot apply ${ignored.map(option => IGNORED_OPTION_LABELS[option]).join(' or ')}`);
+      continue;
+    }
+    if (!(await engine.isAvailable(request.pair))) {
+      skipped.push(`${engine.label} unavailable`);
+      continue;
+    }
+    const startedAt = performance.now();
+    try {
+      const text = await engine.translateText(request);
+      return { text, engine, latencyMs: Math.round(performance.now() - startedAt), fallbackReason: skipped.length ? skipped.join('; ') : undefined };
+    } catch (err) {
+      console.error(`${engine.label} failed:`, err);
+      skipped.push(`${engine.label} failed: ${err instanceof Error ? err.message : String(err)}`);
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,107 @@
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { startMockServer } from '../server/mockServer';
+import { DEFAULT_TRANSCRIPT_PIPELINE, runTranscriptPipeline } from '../utils/transcriptPipeline';
+import { PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { createMockEngine } from './mockEngine';
+import { LiveEvents } from './types';
+
+// The engine runs in the browser; Node 20 has no global WebSocket
+(globalThis as any).WebSocket ??= WebSocket;
+
+const SCRIPT = [
+  { input: 'Where is the train station?', output: 'Где находится вокзал?' },
+  { input: 'Thank you.', output: 'Спасибо.' },
+];
+const pair = { source: 'en', target: 'ru' } as const;
+
+const listen = (wss: WebSocketServer) =>
+  new Promise<string>(resolve => wss.on('listening', () => resolve(`ws://127.0.0.1:${(wss.address() as AddressInfo).port}`)));
+
+const closeServer = (wss: WebSocketServer) =>
+  new Promise<void>(resolve => {
+    wss.clients.forEach(client => client.terminate());
+    wss.close(() => resolve());
+  });
+
+describe('mock engine', () => {
+  let server: WebSocketServer;
+  let url: string;
+
+  beforeAll(async () => {
+    server = startMockServer(0, SCRIPT);
+    url = await listen(server);
+  });
+  afterAll(() => closeServer(server));
+
+  it('runs a Live session from microphone audio to finished turns', async () => {
+    const turns: { user: string; model: string }[] = [];
+    const buffer = { user: '', model: '' };
+    let audioSamples = 0;
+    let turnDone: () => void = () => {};
+
+    const events: LiveEvents = {
+      onOpen: () => {},
+      onAudio: (base64) => { audioSamples += Buffer.from(base64, 'base64').byteLength / 2; },
+      onInputTranscription: (text) => { buffer.user += text; },
+      onOutputTranscription: (text) => { buffer.model += text; },
+      onTurnComplete: () => {
+        turns.push(runTranscriptPipeline(buffer, DEFAULT_TRANSCRIPT_PIPELINE, []));
+        buffer.user = buffer.model = '';
+        turnDone();
+      },
+      onInterrupted: () => {},
+      onError: (message) => { throw new Error(message); },
+      onClose: () => {},
+    };
+
+    const engine = createMockEngine(url);
+    const session = await engine.connectLive!({ pair, mode: 'directed', systemInstruction: '', voice: 'Puck' }, events);
+    for (const turn of SCRIPT) {
+      const done = new Promise<void>(resolve => { turnDone = resolve; });
+      // A second of 16 kHz speech in 100 ms frames, then the end of the utterance
+      for (let i = 0; i < 10; i++) session.sendAudio(new Int16Array(PCM_SAMPLE_RATE / 10).fill(1000));
+      session.endAudioStream();
+      await done;
+    }
+    session.close();
+
+    expect(turns).toEqual(SCRIPT.map(t => ({ user: t.input, model: t.output })));
+    // Each second of input is echoed back as a second of 24 kHz reply
+    expect(audioSamples).toBe(SCRIPT.length * 24000);
+  });
+
+  it('translates text with the scripted turns', async () => {
+    await expect(createMockEngine(url).translateText!({ text: 'thank you.', pair })).resolves.toBe('Спасибо.');
+  });
+
+  it('translates a recording turn by turn', async () => {
+    const segments = await createMockEngine(url).translateAudio!({ pcm: new Int16Array(PCM_SAMPLE_RATE * 2), pair });
+    expect(segments.map(s => [s.startMs, s.endMs])).toEqual([[0, 1500], [1500, 2000]]);
+  });
+});
+
+describe('mock engine failures', () => {
+  it('rejects a request when the server closes the connection', async () => {
+    const wss = new WebSocketServer({ port: 0 });
+    wss.on('connection', ws => ws.on('message', () => ws.close(1011, 'Shutting down')));
+    const url = await listen(wss);
+    await expect(createMockEngine(url).translateText!({ text: 'Hello', pair })).rejects.toThrow('Shutting down');
+    await closeServer(wss);
+  });
+
+  it('rejects a request the server never answers', async () => {
+    const wss = new WebSocketServer({ port: 0 });
+    const url = await listen(wss);
+    await expect(createMockEngine(url, 200).translateText!({ text: 'Hello', pair })).rejects.toThrow('did not answer within 200 ms');
+    await closeServer(wss);
+  });
+
+  it('rejects when the server is gone', async () => {
+    const wss = new WebSocketServer({ port: 0 });
+    const url = await listen(wss);
+    await closeServer(wss);
+    await expect(createMockEngine(url).translateText!({ text: 'Hello', pair })).rejects.toThrow('unreachable');
+  });
+});
@@ -0,0 +1,101 @@
+import { encode } from '../utils/audioUtils';
+import { TranslationEngine, LiveSessionOptions, LiveEvents, LiveSession, TextTranslationRequest, AudioTranslationRequest } from './types';
+import { MockClientMessage, MockServerMessage } from './mockProtocol';
+
+// How long a request, or a Live session's setup, may wait for the server before failing
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const send = (ws: WebSocket, message: MockClientMessage) => ws.send(JSON.stringify(message));
+
+/**
+ * Sends one request on its own socket and resolves with the first reply `pick` accepts. Fails on a
+ * server error, when the socket closes or errors before the reply, or after `timeoutMs`.
+ */
+const request = <T>(url: string, message: MockClientMessage, pick: (reply: MockServerMessage) => T | undefined, timeoutMs: number) =>
+  new Promise<T>((resolve, reject) => {
+    const ws = new WebSocket(url);
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      finish();
+      ws.close();
+    };
+    const timer = setTimeout(() => settle(() => reject(new Error(`Mock engine did not answer within ${timeoutMs} ms`))), timeoutMs);
+    ws.onopen = () => send(ws, message);
+    ws.onmessage = (e: MessageEvent<string>) => {
+      const reply: MockServerMessage = JSON.parse(e.data);
+      const result = pick(reply);
+      if (result !== undefined) settle(() => resolve(result));
+      else if (reply.type === 'error') settle(() => reject(new Error(reply.message)));
+    };
+    ws.onerror = () => settle(() => reject(new Error(`Mock engine unreachable at ${url}`)));
+    ws.onclose = (e) => settle(() => reject(new Error(`Mock engine closed the connection${e.reason ? `: ${e.reason}` : ''}`)));
+  });
+
+/** Client for the scripted stand-in server in server/mockServer.ts, so the app can run without a key or network. */
+export const createMockEngine = (url: string, timeoutMs = DEFAULT_TIMEOUT_MS): TranslationEngine => ({
+  id: 'mock',
+  label: 'Mock engine',
+  kind: 'cloud',
+  isAvailable: async () => true,
+
+  connectLive: (options: LiveSessionOptions, events: LiveEvents) =>
+    new Promise<LiveSession>((resolve, reject) => {
+      const ws = new WebSocket(url);
+      let opened = false;
+      const setupTimer = setTimeout(() => {
+        reject(new Error(`Mock engine did not open the session within ${timeoutMs} ms`));
+        ws.close();
+      }, timeoutMs);
+      ws.onopen = () => send(ws, { type: 'setup', pair: options.pair, mode: options.mode, manualActivity: options.manualActivity, textOnly: options.textOnly });
+      ws.onmessage = async (e: MessageEvent<string>) => {
+        const message: MockServerMessage = JSON.parse(e.data);
+        switch (message.type) {
+          case 'open':
+            opened = true;
+            clearTimeout(setupTimer);
+            events.onOpen();
+            const sendIfOpen = (frame: MockClientMessage) => {
+              if (ws.readyState === WebSocket.OPEN) send(ws, frame);
+            };
+            resolve({
+              sendAudio: (pcm) => sendIfOpen({ type: 'audio', data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)) }),
+              endAudioStream: () => sendIfOpen({ type: 'audioStreamEnd' }),
+              startActivity: () => sendIfOpen({ type: 'activityStart' }),
+              endActivity: () => sendIfOpen({ type: 'activityEnd' }),
+              close: () => ws.close(1000, 'Client closed'),
+            });
+            break;
+          case 'audio': await events.onAudio(message.data); break;
+          case 'inputTranscription': events.onInputTranscription(message.text); break;
+          case 'outputTranscription': events.onOutputTranscription(message.text); break;
+          case 'turnComplete': events.onTurnComplete(); break;
+          case 'interrupted': events.onInterrupted(); break;
+          case 'error': events.onError(message.message); break;
+        }
+      };
+      ws.onerror = () => {
+        if (opened) return events.onError('Mock engine socket error');
+        clearTimeout(setupTimer);
+        reject(new Error(`Mock engine unreachable at ${url}`));
+      };
+      ws.onclose = (e) => {
+        if (opened) return events.onClose(e.reason);
+        clearTimeout(setupTimer);
+        reject(new Error(`Mock engine closed before setup: ${e.reason}`));
+      };
+    }),
+
+  translateText: ({ text, pair }: TextTranslationRequest) => {
+    const id = `t-${Date.now()}`;
+    return request(url, { type: 'translate', id, text, pair }, reply => (reply.type === 'translation' && reply.id === id ? reply.text : undefined), timeoutMs);
+  },
+
+  translateAudio: ({ pcm, pair }: AudioTranslationRequest) => {
+    const id = `a-${Date.now()}`;
+    const data = encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength));
+    return request(url, { type: 'translateAudio', id, data, pair }, reply => (reply.type === 'audioTranslation' && reply.id === id ? reply.segments : undefined), timeoutMs);
+  },
+});
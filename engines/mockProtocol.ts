@@ -0,0 +1,28 @@
+// Wire format shared by the mock engine client and server/mockServer.ts. All frames are JSON text.
+import { LanguagePair, LiveMode } from '../types';
+import { AudioTranslationSegment } from './types';
+
+export type MockClientMessage =
+  | { type: 'setup'; pair: LanguagePair; mode: LiveMode; manualActivity?: boolean; textOnly?: boolean }
+  | { type: 'audio'; data: string }
+  | { type: 'audioStreamEnd' }
+  | { type: 'activityStart' }
+  | { type: 'activityEnd' }
+  | { type: 'translate'; id: string; text: string; pair: LanguagePair }
+  | { type: 'translateAudio'; id: string; data: string; pair: LanguagePair };
+
+export type MockServerMessage =
+  | { type: 'open' }
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputTranscription'; text: string }
+  | { type: 'audio'; data: string }
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' }
+  | { type: 'translation'; id: string; text: string }
+  | { type: 'audioTranslation'; id: string; segments: AudioTranslationSegment[] }
+  | { type: 'error'; id?: string; message: string };
+
+export interface MockScriptTurn {
+  input: string;
+  output: string;
+}
@@ -0,0 +1,24 @@
+// Gemini models a translation profile can choose from. The token server only accepts text models listed here.
+
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+export const LIVE_MODELS: ModelOption[] = [
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Flash native audio' },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Flash Live (half-cascade)' },
+];
+export const DEFAULT_LIVE_MODEL = LIVE_MODELS[0].id;
+// Native-audio models only answer with audio; text-only sessions use the half-cascade model
+export const LIVE_TEXT_MODEL = 'gemini-live-2.5-flash-preview';
+
+export const TEXT_MODELS: ModelOption[] = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+];
+export const DEFAULT_TEXT_MODEL = TEXT_MODELS[0].id;
+
+/** Prebuilt voices of the Live API. */
+export const LIVE_VOICES = ['Zephyr', 'Kore', 'Charon', 'Aoede', 'Leda', 'Puck', 'Fenrir', 'Orus'];
@@ -0,0 +1,26 @@
+import { getLanguage } from '../utils/languages';
+import { TranslationEngine, TextTranslationRequest } from './types';
+
+// Chrome's built-in Prompt API, exposed as window.ai.languageModel in older builds and window.LanguageModel in newer ones
+const getLocalModel = () => (window as any).ai?.languageModel || (window as any).LanguageModel;
+
+export const createOnDeviceEngine = (): TranslationEngine => ({
+  id: 'on-device',
+  label: 'On-device model',
+  kind: 'on-device',
+  ignores: ['model'],
+  isAvailable: async () => Boolean(getLocalModel()),
+
+  translateText: async ({ text, pair, instructions = [] }: TextTranslationRequest) => {
+    const session = await getLocalModel().create();
+    try {
+      const translation = await session.prompt([
+        ...instructions,
+        `Translate the following text into ${getLanguage(pair.target).name}. Output ONLY the translation: ${text}`,
+      ].join('\n\n'));
+      return translation.trim();
+    } finally {
+      session.destroy();
+    }
+  },
+});
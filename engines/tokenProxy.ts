@@ -0,0 +1,36 @@
+// Client for server/tokenServer.ts, which holds the Gemini API key.
+
+export interface LiveToken {
+  token: string;
+  /** Epoch ms after which the token no longer works, even for a session already open. */
+  expiresAt: number;
+}
+
+/** The token server refused a request; `status` is its HTTP status. */
+export class ProxyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Whether sending the same request again cannot succeed: a refusal other than a timeout or rate limit. */
+export const isPermanentFailure = (err: unknown) =>
+  err instanceof ProxyError && err.status >= 400 && err.status < 500 && err.status !== 408 && err.status !== 429;
+
+export async function postToProxy<T>(baseUrl: string, path: string, body: unknown = {}): Promise<T> {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({ error: undefined }));
+    throw new ProxyError(error || `Token server responded ${res.status}`, res.status);
+  }
+  return res.json();
+}
+
+export const fetchLiveToken = (baseUrl: string) => postToProxy<LiveToken>(baseUrl, '/api/live-token');
@@ -0,0 +1,85 @@
+import { LanguagePair, LiveMode } from '../types';
+
+export type EngineKind = 'on-device' | 'cloud';
+
+export interface LiveEvents {
+  onOpen: () => void;
+  /** Base64-encoded 24 kHz mono Int16 PCM of the translated speech. */
+  onAudio: (base64Pcm: string) => void | Promise<void>;
+  onInputTranscription: (text: string) => void;
+  onOutputTranscription: (text: string) => void;
+  onTurnComplete: () => void;
+  /** The user spoke over the reply; audio not yet played back is stale. The turn still completes afterwards. */
+  onInterrupted: () => void;
+  onError: (message: string) => void;
+  /** `planned` is set when the engine hands over to a fresh session (token renewal, server goAway) rather than dropping. */
+  onClose: (reason: string, planned?: boolean) => void;
+}
+
+export interface LiveSessionOptions {
+  pair: LanguagePair;
+  mode: LiveMode;
+  systemInstruction: string;
+  voice: string;
+  /** One of LIVE_MODELS; text-only sessions always use LIVE_TEXT_MODEL. */
+  model?: string;
+  /** Push-to-talk: turns are delimited with startActivity/endActivity instead of server-side voice detection. */
+  manualActivity?: boolean;
+  /** Caption-only sessions: the reply arrives as output transcription text with no audio. */
+  textOnly?: boolean;
+}
+
+export interface LiveSession {
+  /** Sends 16 kHz mono Int16 PCM captured from the microphone. */
+  sendAudio: (pcm: Int16Array) => void;
+  /** Tells the server the microphone went quiet (client-side VAD), so it can close the turn. */
+  endAudioStream: () => void;
+  startActivity: () => void;
+  endActivity: () => void;
+  close: () => void;
+}
+
+export interface TextTranslationRequest {
+  text: string;
+  pair: LanguagePair;
+  /** Extra prompt sections, e.g. the glossary, appended to the engine's own prompt. */
+  instructions?: string[];
+  /** One of TEXT_MODELS, for engines that offer a choice; others ignore it. */
+  model?: string;
+}
+
+export type TextRequestOption = 'instructions' | 'model';
+
+export interface AudioTranslationRequest {
+  /** 16 kHz mono Int16 PCM of a whole recording or a long stretch of one. */
+  pcm: Int16Array;
+  pair: LanguagePair;
+  instructions?: string[];
+  model?: string;
+}
+
+export interface AudioTranslationSegment {
+  /** Offsets into the submitted audio. */
+  startMs: number;
+  endMs: number;
+  source: string;
+  translation: string;
+}
+
+/**
+ * A translation backend. Engines implement live streaming, one-shot text translation, or both;
+ * callers check for the method before using it.
+ */
+export interface TranslationEngine {
+  readonly id: string;
+  readonly label: string;
+  readonly kind: EngineKind;
+  /** Pass the pair when availability depends on it (e.g. per-pair on-device models). */
+  isAvailable: (pair?: LanguagePair) => Promise<boolean>;
+  /** Request options `translateText` cannot honour; translateWithFallback skips the engine for requests that set them. */
+  readonly ignores?: TextRequestOption[];
+  connectLive?: (options: LiveSessionOptions, events: LiveEvents) => Promise<LiveSession>;
+  translateText?: (request: TextTranslationRequest) => Promise<string>;
+  /** Transcribes and translates recorded audio in one request, for imported files. */
+  translateAudio?: (request: AudioTranslationRequest) => Promise<AudioTranslationSegment[]>;
+}
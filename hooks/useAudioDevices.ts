@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/**
+ * Lists audio inputs and outputs and keeps the lists current as devices are plugged in or out.
+ * Labels stay empty until the page has microphone permission; call `refresh` once it does.
+ */
+export function useAudioDevices() {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    setInputs(devices.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default'));
+    setOutputs(devices.filter(d => d.kind === 'audiooutput' && d.deviceId !== 'default'));
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { inputs, outputs, refresh };
+}
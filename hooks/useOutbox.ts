@@ -0,0 +1,87 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { OutboxItem } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { getBackoffDelay } from '../utils/reconnect';
+
+const OUTBOX_RETRY_POLICY = { baseDelayMs: 2000, maxDelayMs: 120000 };
+
+/**
+ * Persistent queue of keyboard translations that could not be sent. Items are delivered strictly
+ * in order through `deliver`, which should throw to have the item retried with backoff and resolve
+ * once the item is delivered or can never be, so an item that will always fail does not hold up the
+ * rest of the queue. Delivery
+ * runs while `isOnline` is true and starts again whenever the browser comes back online. Cancelling
+ * the item being delivered aborts `signal`; `deliver` should check it before applying its result.
+ */
+export function useOutbox(deliver: (item: OutboxItem, signal: AbortSignal) => Promise<void>, isOnline: boolean) {
+  const [items, setItems] = usePersistentState<OutboxItem[]>('outbox', []);
+  const itemsRef = useRef(items);
+  const deliverRef = useRef(deliver);
+  const processingRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+  const inFlightRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  itemsRef.current = items;
+  deliverRef.current = deliver;
+
+  const update = (next: OutboxItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const process = useCallback(async () => {
+    if (processingRef.current || !navigator.onLine) return;
+    processingRef.current = true;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    try {
+      while (itemsRef.current.length > 0 && navigator.onLine) {
+        const item = itemsRef.current[0];
+        const wait = item.nextAttemptAt - Date.now();
+        if (wait > 0) {
+          timerRef.current = window.setTimeout(process, wait);
+          return;
+        }
+        const controller = new AbortController();
+        inFlightRef.current = { id: item.id, controller };
+        try {
+          await deliverRef.current(item, controller.signal);
+          update(itemsRef.current.filter(i => i.id !== item.id));
+        } catch (err) {
+          const attempts = item.attempts + 1;
+          update(itemsRef.current.map(i => i.id === item.id
+            ? { ...i, attempts, nextAttemptAt: Date.now() + getBackoffDelay(attempts, OUTBOX_RETRY_POLICY), lastError: err instanceof Error ? err.message : String(err) }
+            : i));
+        } finally {
+          inFlightRef.current = null;
+        }
+      }
+    } finally {
+      processingRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOnline) process();
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [isOnline, process]);
+
+  /** Queues an item; pass `lastError` when a send attempt already failed so the first retry backs off. */
+  const enqueue = (item: Omit<OutboxItem, 'attempts' | 'nextAttemptAt'>) => {
+    const attempts = item.lastError ? 1 : 0;
+    const nextAttemptAt = Date.now() + (attempts ? getBackoffDelay(attempts, OUTBOX_RETRY_POLICY) : 0);
+    update([...itemsRef.current, { ...item, attempts, nextAttemptAt }]);
+    process();
+  };
+
+  const cancel = (id: string) => {
+    if (inFlightRef.current?.id === id) inFlightRef.current.controller.abort();
+    update(itemsRef.current.filter(i => i.id !== id));
+  };
+
+  return { items, enqueue, cancel };
+}
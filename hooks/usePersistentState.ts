@@ -0,0 +1,31 @@
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+
+const STORAGE_PREFIX = 'voice-match:';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** useState backed by localStorage. Stored objects are merged over `initial`, so newly added fields get their defaults. */
+export function usePersistentState<T>(key: string, initial: T): [T, Dispatch<SetStateAction<T>>] {
+  const storageKey = STORAGE_PREFIX + key;
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const raw = localStorage.getItem(storageKey);
+      if (raw === null) return initial;
+      const parsed = JSON.parse(raw);
+      return isPlainObject(initial) && isPlainObject(parsed) ? { ...initial, ...parsed } : parsed;
+    } catch {
+      return initial;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(value));
+    } catch (err) {
+      console.error(`Failed to persist ${storageKey}:`, err);
+    }
+  }, [storageKey, value]);
+
+  return [value, setValue];
+}
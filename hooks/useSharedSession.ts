@@ -0,0 +1,188 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChatMessage, LanguageCode } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { getBackoffDelay } from '../utils/reconnect';
+import { Participant, RelayClientMessage, RelayServerMessage, normalizePairingCode } from '../utils/relayProtocol';
+
+// Where server/relayServer.ts is reachable; by default the dev server's /relay proxy
+const relayUrl = (import.meta.env.VITE_RELAY_URL as string | undefined)
+  ?? `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/relay`;
+
+const RELAY_RETRY_POLICY = { baseDelayMs: 1000, maxDelayMs: 30000 };
+// Own messages remembered for resending when the relay missed them during a drop
+const MAX_SENT_MESSAGES = 200;
+
+export type SharedStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface SharedRoom {
+  code: string;
+  conversationId: string;
+  createdAt: number;
+  /** This device's language. */
+  lang: LanguageCode;
+}
+
+export interface SharedSessionHandlers {
+  /** Called on every (re)join with the room's full history, which may repeat messages already seen. */
+  onJoined: (room: SharedRoom, history: ChatMessage[], peer?: Participant) => void;
+  /** A message finished on the other device. */
+  onMessage: (message: ChatMessage) => void;
+}
+
+/**
+ * Membership in a shared two-device conversation on the relay. Dropped connections are retried
+ * with backoff for as long as the membership lasts; each rejoin resends own messages the relay
+ * never received.
+ */
+export function useSharedSession(handlers: SharedSessionHandlers) {
+  const [participantId] = usePersistentState('participantId', `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`);
+  const [status, setStatus] = useState<SharedStatus>('idle');
+  const [room, setRoom] = useState<SharedRoom | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [peerPartial, setPeerPartial] = useState({ user: '', model: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const wsRef = useRef<WebSocket | null>(null);
+  const joinedRef = useRef(false);
+  // What we want to be a member of; null once left. `code` is unset until the relay creates the room.
+  const membershipRef = useRef<{ code?: string; lang: LanguageCode } | null>(null);
+  const attemptRef = useRef(0);
+  const retryTimerRef = useRef<number | null>(null);
+  const queueRef = useRef<ChatMessage[]>([]);
+  const sentRef = useRef<ChatMessage[]>([]);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const send = (message: RelayClientMessage) => {
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const reset = () => {
+    membershipRef.current = null;
+    joinedRef.current = false;
+    queueRef.current = [];
+    sentRef.current = [];
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    const ws = wsRef.current;
+    wsRef.current = null;
+    ws?.close(1000, 'Left');
+    setStatus('idle');
+    setRoom(null);
+    setParticipants([]);
+    setPeerPartial({ user: '', model: '' });
+  };
+
+  const handle = (message: RelayServerMessage) => {
+    switch (message.type) {
+      case 'joined': {
+        const membership = membershipRef.current;
+        if (!membership) return;
+        membership.code = message.code;
+        joinedRef.current = true;
+        attemptRef.current = 0;
+        setStatus('connected');
+        setError(null);
+        const joined: SharedRoom = { code: message.code, conversationId: message.conversationId, createdAt: message.createdAt, lang: membership.lang };
+        setRoom(joined);
+        setParticipants(message.participants);
+        handlersRef.current.onJoined(joined, message.history, message.participants.find(p => p.id !== participantId));
+        const relayed = new Set(message.history.map(m => m.id));
+        const pending = [...sentRef.current.filter(m => !relayed.has(m.id)), ...queueRef.current];
+        queueRef.current = [];
+        pending.forEach(m => send({ type: 'message', message: m }));
+        break;
+      }
+      case 'presence':
+        setParticipants(message.participants);
+        if (!message.participants.some(p => p.id !== participantId && p.online)) setPeerPartial({ user: '', model: '' });
+        break;
+      case 'message':
+        handlersRef.current.onMessage(message.message);
+        break;
+      case 'partial':
+        setPeerPartial({ user: message.user, model: message.model });
+        break;
+      case 'error':
+        if (!message.fatal) {
+          console.warn('Relay:', message.message);
+          return;
+        }
+        reset();
+        setError(message.message);
+        break;
+    }
+  };
+
+  const connect = () => {
+    const membership = membershipRef.current;
+    if (!membership) return;
+    retryTimerRef.current = null;
+    const ws = new WebSocket(relayUrl);
+    wsRef.current = ws;
+    ws.onopen = () => send(membership.code
+      ? { type: 'join', code: membership.code, participantId, lang: membership.lang }
+      : { type: 'create', participantId, lang: membership.lang });
+    ws.onmessage = (e: MessageEvent<string>) => {
+      if (wsRef.current === ws) handle(JSON.parse(e.data));
+    };
+    ws.onclose = () => {
+      if (wsRef.current !== ws) return;
+      wsRef.current = null;
+      joinedRef.current = false;
+      if (!membershipRef.current) return;
+      setStatus(membershipRef.current.code ? 'reconnecting' : 'connecting');
+      setPeerPartial({ user: '', model: '' });
+      retryTimerRef.current = window.setTimeout(connect, getBackoffDelay(++attemptRef.current, RELAY_RETRY_POLICY));
+    };
+  };
+
+  const start = (lang: LanguageCode, code?: string) => {
+    reset();
+    setError(null);
+    membershipRef.current = { lang, code: code ? normalizePairingCode(code) : undefined };
+    attemptRef.current = 0;
+    setStatus('connecting');
+    connect();
+  };
+
+  const create = useCallback((lang: LanguageCode) => start(lang), []);
+  const join = useCallback((code: string, lang: LanguageCode) => start(lang, code), []);
+
+  const leave = useCallback(() => {
+    send({ type: 'leave' });
+    reset();
+  }, []);
+
+  const sendMessage = useCallback((message: ChatMessage) => {
+    // Recordings stay on the device that made them
+    const { audio, outboxStatus, outboxError, ...shared } = message;
+    sentRef.current = [...sentRef.current, shared].slice(-MAX_SENT_MESSAGES);
+    if (joinedRef.current) send({ type: 'message', message: shared });
+    else queueRef.current.push(shared);
+  }, []);
+
+  const sendPartial = useCallback((user: string, model: string) => {
+    if (joinedRef.current) send({ type: 'partial', user, model });
+  }, []);
+
+  // Coming back online should not wait out the backoff
+  useEffect(() => {
+    const onOnline = () => {
+      if (!membershipRef.current || wsRef.current || !retryTimerRef.current) return;
+      clearTimeout(retryTimerRef.current);
+      connect();
+    };
+    window.addEventListener('online', onOnline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      membershipRef.current = null;
+      wsRef.current?.close();
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    };
+  }, []);
+
+  const peer = participants.find(p => p.id !== participantId);
+  return { participantId, status, room, participants, peer, peerPartial, error, create, join, leave, sendMessage, sendPartial };
+}
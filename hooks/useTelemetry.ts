@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import { usePersistentState } from './usePersistentState';
+import { TelemetryEvent, TelemetrySnapshot, UsageTotals, addToTotals, dayKey, emptyTotals } from '../utils/telemetry';
+
+// Individual events are only kept for the bug report export; totals cover everything
+const MAX_SESSION_EVENTS = 500;
+const DAYS_KEPT = 30;
+
+/**
+ * Usage and latency metrics: totals and recent events since the app was opened (in memory), and
+ * totals per calendar day (persisted, last 30 days).
+ */
+export function useTelemetry() {
+  const [sessionStartedAt, setSessionStartedAt] = useState(Date.now);
+  const [session, setSession] = useState<UsageTotals>(emptyTotals);
+  const [events, setEvents] = useState<TelemetryEvent[]>([]);
+  const [daily, setDaily] = usePersistentState<Record<string, UsageTotals>>('telemetry', {});
+
+  const record = useCallback((event: TelemetryEvent) => {
+    setSession(prev => addToTotals(prev, event));
+    setEvents(prev => [...prev, event].slice(-MAX_SESSION_EVENTS));
+    setDaily(prev => {
+      const day = dayKey(event.at);
+      const next = { ...prev, [day]: addToTotals({ ...emptyTotals(), ...prev[day] }, event) };
+      return Object.fromEntries(Object.keys(next).sort().slice(-DAYS_KEPT).map(key => [key, next[key]]));
+    });
+  }, []);
+
+  const resetSession = useCallback(() => {
+    setSessionStartedAt(Date.now());
+    setSession(emptyTotals());
+    setEvents([]);
+  }, []);
+
+  const snapshot: TelemetrySnapshot = { sessionStartedAt, session, events, daily };
+  return { ...snapshot, record, resetSession };
+}
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import CaptionDisplay from './components/CaptionDisplay';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +12,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {new URLSearchParams(window.location.search).has('captions') ? <CaptionDisplay /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,137 @@
+// Offline stand-in for the Gemini engines. Speaks the protocol in engines/mockProtocol.ts:
+// after every TURN_SECONDS of microphone audio, or when the client ends the audio stream or
+// activity, it plays back the next scripted turn, echoing the received audio (resampled to
+// 24 kHz) as the "translated" speech. Starting a push-to-talk activity while that reply would
+// still be playing reports an interruption. Batch audio translation answers with one scripted
+// turn per TURN_SECONDS of the submitted recording.
+//
+//   npm run mock-server -- [--port 8787] [--script turns.json]
+//   VITE_MOCK_ENGINE_URL=ws://localhost:8787 npm run dev
+import { readFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer, WebSocket } from 'ws';
+import { decode, encode, resample, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { MockClientMessage, MockServerMessage, MockScriptTurn } from '../engines/mockProtocol';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const TURN_SECONDS = 1.5;
+
+export const DEFAULT_SCRIPT: MockScriptTurn[] = [
+  { input: 'Hello, how are you?', output: 'Привет, как дела?' },
+  { input: 'Where is the train station?', output: 'Где находится вокзал?' },
+  { input: 'Thank you very much.', output: 'Большое спасибо.' },
+];
+
+const arg = (name: string) => {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+};
+
+const send = (ws: WebSocket, message: MockServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+};
+
+/** Splits text into word-sized pieces the way Live transcription streams arrive. */
+const chunks = (text: string) => text.match(/\S+\s*/g) || [];
+
+const pcmToFloat = (bytes: Uint8Array) => {
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+  return Float32Array.from(int16, s => s / 32768);
+};
+
+const floatToBase64Pcm = (samples: Float32Array) => {
+  const int16 = Int16Array.from(samples, s => Math.max(-32768, Math.min(32767, Math.round(s * 32767))));
+  return encode(new Uint8Array(int16.buffer));
+};
+
+/** Plays a turn and returns how long its reply takes to play back, in milliseconds. */
+const playTurn = (ws: WebSocket, turn: MockScriptTurn, audio: Float32Array, textOnly: boolean) => {
+  chunks(turn.input).forEach(text => send(ws, { type: 'inputTranscription', text }));
+  if (!textOnly) send(ws, { type: 'audio', data: floatToBase64Pcm(resample(audio, PCM_SAMPLE_RATE, OUTPUT_SAMPLE_RATE)) });
+  chunks(turn.output).forEach(text => send(ws, { type: 'outputTranscription', text }));
+  send(ws, { type: 'turnComplete' });
+  return (audio.length / PCM_SAMPLE_RATE) * 1000;
+};
+
+const handleConnection = (ws: WebSocket, script: MockScriptTurn[]) => {
+  let turnIndex = 0;
+  let received: Float32Array[] = [];
+  let receivedSamples = 0;
+  let manualActivity = false;
+  let textOnly = false;
+  let replyPlayingUntil = 0;
+
+  const finishTurn = () => {
+    if (receivedSamples === 0) return;
+    const audio = new Float32Array(receivedSamples);
+    received.reduce((offset, c) => { audio.set(c, offset); return offset + c.length; }, 0);
+    received = [];
+    receivedSamples = 0;
+    replyPlayingUntil = Date.now() + playTurn(ws, script[turnIndex++ % script.length], audio, textOnly);
+  };
+
+  ws.on('message', raw => {
+    let message: MockClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      send(ws, { type: 'error', message: 'Malformed frame' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'setup':
+        manualActivity = Boolean(message.manualActivity);
+        textOnly = Boolean(message.textOnly);
+        console.log(`live session ${message.pair.source}→${message.pair.target} (${message.mode}${manualActivity ? ', push-to-talk' : ''})`);
+        send(ws, { type: 'open' });
+        break;
+      case 'audio': {
+        const samples = pcmToFloat(decode(message.data));
+        received.push(samples);
+        receivedSamples += samples.length;
+        if (!manualActivity && receivedSamples >= TURN_SECONDS * PCM_SAMPLE_RATE) finishTurn();
+        break;
+      }
+      case 'audioStreamEnd':
+      case 'activityEnd':
+        finishTurn();
+        break;
+      case 'activityStart':
+        if (Date.now() < replyPlayingUntil) send(ws, { type: 'interrupted' });
+        replyPlayingUntil = 0;
+        break;
+      case 'translate': {
+        const scripted = script.find(t => t.input.toLowerCase() === message.text.trim().toLowerCase());
+        send(ws, { type: 'translation', id: message.id, text: scripted ? scripted.output : `[${message.pair.target}] ${message.text}` });
+        break;
+      }
+      case 'translateAudio': {
+        const durationMs = (decode(message.data).byteLength / 2 / PCM_SAMPLE_RATE) * 1000;
+        const turnMs = TURN_SECONDS * 1000;
+        const segments = Array.from({ length: Math.ceil(durationMs / turnMs) }, (_, i) => {
+          const turn = script[(turnIndex + i) % script.length];
+          return { startMs: i * turnMs, endMs: Math.min(durationMs, (i + 1) * turnMs), source: turn.input, translation: turn.output };
+        });
+        turnIndex += segments.length;
+        send(ws, { type: 'audioTranslation', id: message.id, segments });
+        break;
+      }
+    }
+  });
+};
+
+/** Starts the mock engine on `port` (0 picks a free one), e.g. for tests that run the app's flow offline. */
+export const startMockServer = (port: number, script: MockScriptTurn[] = DEFAULT_SCRIPT) => {
+  const wss = new WebSocketServer({ port });
+  wss.on('connection', ws => handleConnection(ws, script));
+  return wss;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(arg('port') || process.env.MOCK_PORT || 8787);
+  const scriptPath = arg('script');
+  const script: MockScriptTurn[] = scriptPath ? JSON.parse(readFileSync(scriptPath, 'utf8')) : DEFAULT_SCRIPT;
+  startMockServer(port, script)
+    .on('listening', () => console.log(`Mock translation engine listening on ws://localhost:${port} (${script.length} scripted turns)`));
+}
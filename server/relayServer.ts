@@ -0,0 +1,200 @@
+// Relay for shared two-device conversations. Each device joins a room by pairing code, and the
+// relay forwards finished messages and in-progress transcriptions to the other device. Rooms keep
+// their message history so a device that drops out catches up when it rejoins with the same
+// participant id. Nothing is written to disk; rooms disappear once everyone has been gone a while.
+//
+//   npm run relay-server -- [--port 8789]
+//   (`npm run dev` proxies /relay to this server)
+import { randomInt } from 'node:crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { ChatMessage, LanguageCode } from '../types';
+import { LANGUAGE_CODES, isLanguagePair } from '../utils/languages';
+import { MAX_PARTICIPANTS, PAIRING_CODE_ALPHABET, PAIRING_CODE_LENGTH, Participant, RelayClientMessage, RelayServerMessage, normalizePairingCode } from '../utils/relayProtocol';
+
+const HEARTBEAT_MS = 15000;
+const EMPTY_ROOM_TTL_MS = 15 * 60 * 1000;
+const MAX_HISTORY = 1000;
+const MAX_FRAME_BYTES = 256 * 1024;
+// Bounds on what the relay holds in memory: rooms open at once, and the history kept per room
+const MAX_ROOMS = 500;
+const MAX_HISTORY_BYTES = 4 * 1024 * 1024;
+
+interface Member {
+  lang: LanguageCode;
+  socket: WebSocket | null;
+}
+
+interface Room {
+  code: string;
+  conversationId: string;
+  createdAt: number;
+  members: Map<string, Member>;
+  history: ChatMessage[];
+  /** Serialized size of `history`. */
+  historyBytes: number;
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+const arg = (name: string) => {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+};
+
+const port = Number(arg('port') || process.env.RELAY_PORT || 8789);
+const rooms = new Map<string, Room>();
+
+const send = (ws: WebSocket, message: RelayServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+};
+
+const participants = (room: Room): Participant[] =>
+  [...room.members].map(([id, member]) => ({ id, lang: member.lang, online: member.socket !== null }));
+
+const broadcast = (room: Room, message: RelayServerMessage, exceptId?: string) =>
+  room.members.forEach((member, id) => {
+    if (id !== exceptId && member.socket) send(member.socket, message);
+  });
+
+const newCode = () => {
+  let code: string;
+  do {
+    code = Array.from({ length: PAIRING_CODE_LENGTH }, () => PAIRING_CODE_ALPHABET[randomInt(PAIRING_CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const scheduleExpiry = (room: Room) => {
+  if (room.expiryTimer) clearTimeout(room.expiryTimer);
+  room.expiryTimer = null;
+  if ([...room.members.values()].some(m => m.socket)) return;
+  room.expiryTimer = setTimeout(() => {
+    rooms.delete(room.code);
+    console.log(`room ${room.code} expired`);
+  }, EMPTY_ROOM_TTL_MS);
+};
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const m = value as Partial<ChatMessage>;
+  return typeof m.id === 'string' && typeof m.text === 'string' && typeof m.timestamp === 'number'
+    && (m.sender === 'user' || m.sender === 'model') && isLanguagePair(m.pair);
+};
+
+const isClientMessage = (value: unknown): value is RelayClientMessage =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as { type?: unknown }).type === 'string';
+
+/** Appends to the room's history, dropping the oldest messages beyond the count and size limits. */
+const remember = (room: Room, message: ChatMessage) => {
+  room.history.push(message);
+  room.historyBytes += Buffer.byteLength(JSON.stringify(message));
+  while (room.history.length > MAX_HISTORY || room.historyBytes > MAX_HISTORY_BYTES) {
+    room.historyBytes -= Buffer.byteLength(JSON.stringify(room.history.shift()));
+  }
+};
+
+const handleConnection = (ws: WebSocket) => {
+  let room: Room | null = null;
+  let participantId = '';
+  let alive = true;
+  ws.on('pong', () => { alive = true; });
+  const heartbeat = setInterval(() => {
+    // A phone that loses its network never sends a close frame; this is how it is noticed
+    if (!alive) return ws.terminate();
+    alive = false;
+    ws.ping();
+  }, HEARTBEAT_MS);
+
+  const enter = (target: Room, id: string, lang: LanguageCode) => {
+    const member = target.members.get(id);
+    if (!member && target.members.size >= MAX_PARTICIPANTS) {
+      send(ws, { type: 'error', message: 'This conversation already has two participants.', fatal: true });
+      return;
+    }
+    // Rejoining replaces the socket the relay still holds for a dropped connection
+    if (member?.socket && member.socket !== ws) member.socket.close(4000, 'Replaced by a newer connection');
+    target.members.set(id, { lang, socket: ws });
+    room = target;
+    participantId = id;
+    scheduleExpiry(target);
+    send(ws, { type: 'joined', code: target.code, conversationId: target.conversationId, createdAt: target.createdAt, participants: participants(target), history: target.history });
+    broadcast(target, { type: 'presence', participants: participants(target) }, id);
+  };
+
+  ws.on('message', raw => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.toString());
+    } catch {
+      parsed = undefined;
+    }
+    if (!isClientMessage(parsed)) {
+      send(ws, { type: 'error', message: 'Malformed frame' });
+      return;
+    }
+    const message = parsed;
+
+    switch (message.type) {
+      case 'create':
+      case 'join': {
+        // One room per connection; switching rooms takes a new connection
+        if (room) {
+          send(ws, { type: 'error', message: 'Already in a conversation' });
+          return;
+        }
+        if (typeof message.participantId !== 'string' || !message.participantId || !LANGUAGE_CODES.includes(message.lang)) {
+          send(ws, { type: 'error', message: 'Invalid participant', fatal: true });
+          return;
+        }
+        if (message.type === 'create') {
+          if (rooms.size >= MAX_ROOMS) {
+            send(ws, { type: 'error', message: 'The relay is busy. Try again later.', fatal: true });
+            return;
+          }
+          const createdAt = Date.now();
+          const code = newCode();
+          const created: Room = { code, conversationId: `conv-shared-${code}-${createdAt}`, createdAt, members: new Map(), history: [], historyBytes: 0, expiryTimer: null };
+          rooms.set(code, created);
+          console.log(`room ${code} created`);
+          enter(created, message.participantId, message.lang);
+        } else {
+          const target = rooms.get(normalizePairingCode(String(message.code)));
+          if (!target) send(ws, { type: 'error', message: 'No conversation with this code. It may have expired.', fatal: true });
+          else enter(target, message.participantId, message.lang);
+        }
+        break;
+      }
+      case 'message':
+        if (!room || !isChatMessage(message.message)) return;
+        // Messages are resent after a reconnect; forward each one once
+        if (room.history.some(m => m.id === message.message.id)) return;
+        remember(room, message.message);
+        broadcast(room, { type: 'message', from: participantId, message: message.message }, participantId);
+        break;
+      case 'partial':
+        if (!room) return;
+        broadcast(room, { type: 'partial', from: participantId, user: String(message.user), model: String(message.model) }, participantId);
+        break;
+      case 'leave':
+        if (!room) return;
+        room.members.delete(participantId);
+        broadcast(room, { type: 'presence', participants: participants(room) });
+        if (room.members.size === 0) rooms.delete(room.code);
+        room = null;
+        ws.close(1000, 'Left');
+        break;
+    }
+  });
+
+  ws.on('close', () => {
+    clearInterval(heartbeat);
+    const member = room?.members.get(participantId);
+    if (!room || !member || member.socket !== ws) return;
+    member.socket = null;
+    broadcast(room, { type: 'presence', participants: participants(room) });
+    scheduleExpiry(room);
+  });
+};
+
+const wss = new WebSocketServer({ port, maxPayload: MAX_FRAME_BYTES });
+wss.on('connection', handleConnection);
+wss.on('listening', () => console.log(`Relay listening on ws://localhost:${port}`));
@@ -0,0 +1,264 @@
+// Keeps the Gemini API key off the client. The browser asks this server for single-use ephemeral
+// tokens to open Live sessions, and sends keyboard translations and imported recordings here
+// instead of to Gemini.
+//
+//   GEMINI_API_KEY=... npm run token-server -- [--port 8788]
+//   (the key is also read from .env.local; `npm run dev` proxies /api to this server)
+import { existsSync } from 'node:fs';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { AudioTranslationSegment, TextTranslationRequest } from '../engines/types';
+import { DEFAULT_TEXT_MODEL, TEXT_MODELS } from '../engines/models';
+import { getLanguage, LANGUAGE_CODES } from '../utils/languages';
+
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_BODY_BYTES = 64 * 1024;
+// Base64 WAV of the longest batch the client sends (2 minutes of 16 kHz mono)
+const MAX_AUDIO_BODY_BYTES = 6 * 1024 * 1024;
+
+/** Requests allowed per client within the window. */
+const RATE_LIMITS = {
+  token: { limit: 20, windowMs: 60 * 1000 },
+  translate: { limit: 60, windowMs: 60 * 1000 },
+  translateAudio: { limit: 10, windowMs: 60 * 1000 },
+};
+
+const arg = (name: string) => {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+};
+
+if (!process.env.GEMINI_API_KEY && existsSync('.env.local')) process.loadEnvFile('.env.local');
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set (environment or .env.local)');
+  process.exit(1);
+}
+
+const port = Number(arg('port') || process.env.TOKEN_SERVER_PORT || 8788);
+// Only needed when the app is served from a different origin than this server
+const allowedOrigin = process.env.ALLOWED_ORIGIN;
+// Addresses of reverse proxies in front of this server whose X-Forwarded-For header is believed
+const trustedProxies = new Set((process.env.TRUSTED_PROXIES || '').split(',').map(a => a.trim()).filter(Boolean));
+
+const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+const genAI = new GoogleGenerativeAI(apiKey);
+const textModels = new Map<string, GenerativeModel>();
+
+const getTextModel = (id: string) => {
+  if (!textModels.has(id)) textModels.set(id, genAI.getGenerativeModel({ model: id }));
+  return textModels.get(id)!;
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/** Sliding-window limiter keyed by client address. */
+const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+  return (client: string) => {
+    const now = Date.now();
+    // Forget clients with no request left in the window, so the map does not grow with every address ever seen
+    if (now - lastSweep >= windowMs) {
+      hits.forEach((times, key) => {
+        if (now - times[times.length - 1] >= windowMs) hits.delete(key);
+      });
+      lastSweep = now;
+    }
+    const recent = (hits.get(client) || []).filter(t => now - t < windowMs);
+    if (recent.length >= limit) {
+      hits.set(client, recent);
+      const retryAfter = Math.ceil((recent[0] + windowMs - now) / 1000);
+      throw new HttpError(429, `Rate limit exceeded, retry in ${retryAfter}s`);
+    }
+    recent.push(now);
+    hits.set(client, recent);
+  };
+};
+
+const limiters = {
+  token: createRateLimiter(RATE_LIMITS.token),
+  translate: createRateLimiter(RATE_LIMITS.translate),
+  translateAudio: createRateLimiter(RATE_LIMITS.translateAudio),
+};
+
+const clientId = (req: IncomingMessage) => {
+  const peer = req.socket.remoteAddress || 'unknown';
+  // Anyone can send X-Forwarded-For; it only names the client when a trusted proxy added it
+  if (!trustedProxies.has(peer)) return peer;
+  const forwarded = ((req.headers['x-forwarded-for'] as string | undefined) || '').split(',').map(a => a.trim()).filter(Boolean);
+  return forwarded.reverse().find(a => !trustedProxies.has(a)) ?? peer;
+};
+
+/**
+ * Refuses requests a foreign web page could send from the user's browser: anything but a JSON
+ * POST (other types skip the CORS preflight), and any request from an origin other than this
+ * server's own or ALLOWED_ORIGIN.
+ */
+const checkCaller = (req: IncomingMessage) => {
+  const { origin, host } = req.headers;
+  if (origin && origin !== allowedOrigin) {
+    let sameOrigin = false;
+    try {
+      sameOrigin = new URL(origin).host === host;
+    } catch {}
+    if (!sameOrigin) throw new HttpError(403, 'Origin not allowed');
+  }
+  if (!/^application\/json\s*(;|$)/i.test(req.headers['content-type'] || '')) throw new HttpError(415, 'Content-Type must be application/json');
+};
+
+/** Reads a JSON body of at most `maxBytes`; a larger one is answered with 413 and its connection dropped. */
+const readJson = (req: IncomingMessage, res: ServerResponse, maxBytes = MAX_BODY_BYTES) =>
+  new Promise<unknown>((resolve, reject) => {
+    const tooLarge = () => {
+      req.off('data', onData);
+      chunks.length = 0;
+      res.once('finish', () => req.destroy());
+      reject(new HttpError(413, 'Request body too large'));
+    };
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) tooLarge();
+      else chunks.push(chunk);
+    };
+    if (Number(req.headers['content-length']) > maxBytes) {
+      tooLarge();
+      return;
+    }
+    req.on('data', onData);
+    req.on('end', () => {
+      if (size > maxBytes) return;
+      try {
+        resolve(size ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new HttpError(400, 'Malformed JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Profiles pick the model, but only from the list the app offers
+const parseModel = (model: unknown = DEFAULT_TEXT_MODEL) => {
+  if (typeof model !== 'string' || !TEXT_MODELS.some(m => m.id === model)) throw new HttpError(400, 'Invalid model');
+  return model;
+};
+
+const parseTranslationRequest = (body: any): TextTranslationRequest & { model: string } => {
+  const { text, pair, instructions = [], model } = body || {};
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_TEXT_LENGTH) throw new HttpError(400, 'Invalid text');
+  if (!pair || !LANGUAGE_CODES.includes(pair.source) || !LANGUAGE_CODES.includes(pair.target)) throw new HttpError(400, 'Invalid language pair');
+  if (!Array.isArray(instructions) || instructions.some(i => typeof i !== 'string')) throw new HttpError(400, 'Invalid instructions');
+  return { text, pair, instructions, model: parseModel(model) };
+};
+
+const parseAudioTranslationRequest = (body: any) => {
+  const { audio, pair, instructions = [], model } = body || {};
+  if (typeof audio !== 'string' || !audio) throw new HttpError(400, 'Invalid audio');
+  if (!pair || !LANGUAGE_CODES.includes(pair.source) || !LANGUAGE_CODES.includes(pair.target)) throw new HttpError(400, 'Invalid language pair');
+  if (!Array.isArray(instructions) || instructions.some(i => typeof i !== 'string')) throw new HttpError(400, 'Invalid instructions');
+  return { audio, pair, instructions, model: parseModel(model) };
+};
+
+const mintLiveToken = async () => {
+  const expiresAt = Date.now() + LIVE_TOKEN_TTL_MS;
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(expiresAt).toISOString(),
+      newSessionExpireTime: new Date(Date.now() + NEW_SESSION_WINDOW_MS).toISOString(),
+    },
+  });
+  return { token: token.name, expiresAt };
+};
+
+const translate = async ({ text, pair, instructions = [], model }: ReturnType<typeof parseTranslationRequest>) => {
+  const source = getLanguage(pair.source).name;
+  const target = getLanguage(pair.target).name;
+  // Same rules as the Live prompt, so a profile's style sections read the same on both paths
+  const prompt = [
+    `You are a professional translator from ${source} to ${target}.
+STRICT RULES:
+1. ONLY output the direct ${target} translation of the text below.
+2. NEVER repeat the original ${source} words or add explanations, quotes or labels.`,
+    ...instructions,
+    `TEXT:\n${text}`,
+  ].join('\n\n');
+  const result = await getTextModel(model).generateContent(prompt);
+  return { text: result.response.text().trim() };
+};
+
+const parseTimestamp = (value: unknown) => {
+  if (typeof value === 'number') return Math.max(0, Math.round(value));
+  // Models sometimes answer "mm:ss.mmm" despite being asked for milliseconds
+  const parts = typeof value === 'string' ? value.split(':').map(Number) : [];
+  return parts.length && parts.every(n => !isNaN(n)) ? Math.round(parts.reduce((total, n) => total * 60 + n, 0) * 1000) : 0;
+};
+
+const translateAudio = async ({ audio, pair, instructions, model }: ReturnType<typeof parseAudioTranslationRequest>) => {
+  const prompt = [
+    `Transcribe the ${getLanguage(pair.source).name} speech in this recording and translate each utterance to ${getLanguage(pair.target).name}.`,
+    'Answer with a JSON array of {"startMs": number, "endMs": number, "source": string, "translation": string}, one element per utterance, in order, with times in milliseconds from the start of the recording. Skip silence and noise.',
+    ...instructions,
+  ].join('\n\n');
+  const result = await getTextModel(model).generateContent({
+    contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'audio/wav', data: audio } }, { text: prompt }] }],
+    generationConfig: { responseMimeType: 'application/json' },
+  });
+  const parsed = JSON.parse(result.response.text());
+  if (!Array.isArray(parsed)) throw new Error('Audio translation is not a JSON array');
+  const segments: AudioTranslationSegment[] = parsed
+    .filter((s: any) => typeof s?.source === 'string' && typeof s.translation === 'string')
+    .map((s: any) => {
+      const startMs = parseTimestamp(s.startMs);
+      return { startMs, endMs: Math.max(startMs, parseTimestamp(s.endMs)), source: s.source.trim(), translation: s.translation.trim() };
+    });
+  return { segments };
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  if (allowedOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    if (req.method === 'POST') checkCaller(req);
+    if (req.method === 'POST' && req.url === '/api/live-token') {
+      limiters.token(clientId(req));
+      send(res, 200, await mintLiveToken());
+    } else if (req.method === 'POST' && req.url === '/api/translate') {
+      limiters.translate(clientId(req));
+      send(res, 200, await translate(parseTranslationRequest(await readJson(req, res))));
+    } else if (req.method === 'POST' && req.url === '/api/translate-audio') {
+      limiters.translateAudio(clientId(req));
+      send(res, 200, await translateAudio(parseAudioTranslationRequest(await readJson(req, res, MAX_AUDIO_BODY_BYTES))));
+    } else {
+      send(res, 404, { error: 'Not found' });
+    }
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 502;
+    if (!(err instanceof HttpError)) console.error(`${req.method} ${req.url} failed:`, err);
+    send(res, status, { error: err instanceof HttpError ? err.message : 'Upstream request failed' });
+  }
+});
+
+server.listen(port, () => console.log(`Token server listening on http://localhost:${port}`));
@@ -0,0 +1,60 @@
+/// <reference lib="webworker" />
+// Built into /sw.js by the service worker plugin in vite.config.ts, which fills in the precache list.
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_URLS__: string[];
+declare const __BUILD_VERSION__: string;
+
+const CACHE_NAME = `voice-match-${__BUILD_VERSION__}`;
+// Styling comes from the Tailwind CDN, so the shell is unusable offline without it
+const CROSS_ORIGIN_URLS = ['https://cdn.tailwindcss.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(__PRECACHE_URLS__);
+    await Promise.all(CROSS_ORIGIN_URLS.map(async url => {
+      try {
+        await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (err) {
+        console.warn(`Could not precache ${url}:`, err);
+      }
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith('voice-match-') && key !== CACHE_NAME).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// The page asks the waiting worker to take over once the user accepts the update notice
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin && !CROSS_ORIGIN_URLS.includes(url.href.replace(/\/$/, ''))) return;
+
+  if (request.mode === 'navigate') {
+    // Network first so a fresh deploy is picked up; the cached shell when offline
+    event.respondWith(fetch(request).catch(async () => (await caches.match('/index.html')) || Response.error()));
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok && url.origin === self.location.origin) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
@@ -1,12 +1,143 @@
+export type LanguageCode = 'en' | 'ru' | 'de' | 'es' | 'uk' | 'zh';
 
-export enum TranslationMode {
-  EN_TO_RU = 'EN_TO_RU',
-  RU_TO_EN = 'RU_TO_EN'
+export interface FlagSpec {
+  stripes: string[];
+  vertical?: boolean;
+  canton?: string;
+  emblem?: { char: string; color: string };
+}
+
+export interface Language {
+  code: LanguageCode;
+  name: string;
+  ttsLocale: string;
+  voice: string;
+  badge: string;
+  flag: FlagSpec;
+  placeholder: string;
+}
+
+export interface LanguagePair {
+  source: LanguageCode;
+  target: LanguageCode;
+}
+
+export type LiveMode = 'directed' | 'conversation';
+
+export interface GlossaryEntry {
+  id: string;
+  pair: LanguagePair;
+  sourceTerm: string;
+  /** Equal to sourceTerm for terms that must never be translated. */
+  targetTerm: string;
+}
+
+/** Forms of address: `formal` is Russian «вы», German "Sie"; `informal` is «ты», "du". */
+export type Formality = 'auto' | 'formal' | 'informal';
+
+/** A named translation style shared by the Live and text paths. */
+export interface TranslationProfile {
+  id: string;
+  name: string;
+  /** Free text, e.g. "warm and reassuring". */
+  tone: string;
+  formality: Formality;
+  /** What the conversation is about, so the model picks the right terminology. */
+  domain: string;
+  /** Live voice per target language; languages left out use their default voice. */
+  voices: Partial<Record<LanguageCode, string>>;
+  liveModel: string;
+  textModel: string;
+}
+
+export interface OutboxItem {
+  id: string;
+  /** The queued user message; its translation is added to the same conversation and turn. */
+  messageId: string;
+  conversationId: string;
+  turnId: string;
+  text: string;
+  pair: LanguagePair;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export type SessionStatus = 'Idle' | 'Connecting' | 'Live' | 'Reconnecting';
+
+export type ConversationKind = 'live' | 'keyboard' | 'file' | 'shared';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  kind: ConversationKind;
+  pair: LanguagePair;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  preview: string;
+  /** Imported recordings: message start/end times are offsets into the file added to `createdAt`. */
+  sourceFile?: { name: string; durationMs: number };
+}
+
+export interface AudioClipInfo {
+  sampleRate: number;
+  durationMs: number;
+}
+
+export interface StoredAudioClip extends AudioClipInfo {
+  messageId: string;
+  conversationId: string;
+  pcm: ArrayBuffer;
+}
+
+/** Which engine produced a translation, for the badge under the message. */
+export interface EngineInfo {
+  kind: 'on-device' | 'cloud' | 'live';
+  label: string;
+  latencyMs?: number;
+  fallbackReason?: string;
 }
 
 export interface ChatMessage {
   id: string;
+  conversationId: string;
+  pair: LanguagePair;
   sender: 'user' | 'model';
   text: string;
   timestamp: number;
+  lang?: LanguageCode;
+  detectedLang?: LanguageCode;
+  glossaryViolations?: string[];
+  outboxStatus?: 'queued' | 'cancelled' | 'failed';
+  /** Why the server refused a keyboard translation for good; set along with outboxStatus 'failed'. */
+  outboxError?: string;
+  /** Present when the recorded turn audio (microphone for user, Live reply for model) is stored. */
+  audio?: AudioClipInfo;
+  /** The speaker talked over this reply; text and audio are cut to what was actually played. */
+  interrupted?: boolean;
+  engine?: EngineInfo;
+  turnId?: string;
+  startedAt?: number;
+  endedAt?: number;
+  /** Earlier texts of an edited message, oldest first. */
+  revisions?: MessageRevision[];
+  /** A reply translated back into the source language, to check that the meaning survived. */
+  backTranslation?: string;
+  /** Other ways to phrase a reply, on request. */
+  alternatives?: PhrasingAlternative[];
+}
+
+export interface MessageRevision {
+  text: string;
+  /** When this text was replaced. */
+  editedAt: number;
+}
+
+export type PhrasingStyle = 'formal' | 'casual';
+
+export interface PhrasingAlternative {
+  style: PhrasingStyle;
+  text: string;
 }
@@ -0,0 +1,108 @@
+import { TranscriptTurn } from '../transcriptPipeline';
+
+export interface TranscriptFixture {
+  name: string;
+  turn: TranscriptTurn;
+  expected: TranscriptTurn;
+}
+
+// Turns recorded from Live sessions, with what the chat should show for each
+
+export const ECHO_FIXTURES: TranscriptFixture[] = [
+  {
+    name: 'echo at the start in the source script',
+    turn: { user: 'Где находится вокзал?', model: 'Где находится вокзал? Where is the train station?' },
+    expected: { user: 'Где находится вокзал?', model: 'Where is the train station?' },
+  },
+  {
+    name: 'echo in the middle of the reply',
+    turn: { user: 'I need a doctor', model: 'Мне нужен врач. I need a doctor.' },
+    expected: { user: 'I need a doctor', model: 'Мне нужен врач.' },
+  },
+  {
+    name: 'slightly misheard echo',
+    turn: { user: 'Wie spät ist es jetzt', model: 'Wie spät ist es jets. What time is it now?' },
+    expected: { user: 'Wie spät ist es jetzt', model: 'What time is it now?' },
+  },
+  {
+    name: 'transliterated echo as its own sentence',
+    turn: { user: 'Привет, как дела', model: 'Privet, kak dela. Hi, how are you?' },
+    expected: { user: 'Привет, как дела', model: 'Hi, how are you?' },
+  },
+  {
+    name: 'single-word echo set apart by punctuation',
+    turn: { user: 'Спасибо', model: 'Спасибо. Thank you.' },
+    expected: { user: 'Спасибо', model: 'Thank you.' },
+  },
+  {
+    name: 'cognate',
+    turn: { user: 'Computer', model: 'Компьютер' },
+    expected: { user: 'Computer', model: 'Компьютер' },
+  },
+  {
+    name: 'cognate with punctuation',
+    turn: { user: 'Hotel', model: 'Отель.' },
+    expected: { user: 'Hotel', model: 'Отель.' },
+  },
+  {
+    name: 'name',
+    turn: { user: 'Anna', model: 'Анна' },
+    expected: { user: 'Anna', model: 'Анна' },
+  },
+  {
+    name: 'cognates only',
+    turn: { user: 'Internet problem', model: 'Интернет проблема' },
+    expected: { user: 'Internet problem', model: 'Интернет проблема' },
+  },
+  {
+    name: 'name starting a reply',
+    turn: { user: 'Anna', model: 'Anna is here' },
+    expected: { user: 'Anna', model: 'Anna is here' },
+  },
+  {
+    name: 'cognates inside a longer reply',
+    turn: { user: 'Hotel Anna', model: 'Отель Анна рядом' },
+    expected: { user: 'Hotel Anna', model: 'Отель Анна рядом' },
+  },
+  {
+    name: 'reply that only repeats the source',
+    turn: { user: 'OK', model: 'OK.' },
+    expected: { user: 'OK', model: 'OK.' },
+  },
+];
+
+export const NOISE_FIXTURES: TranscriptFixture[] = [
+  {
+    name: 'tags around speech',
+    turn: { user: '<noise> Hello there [laughter]', model: 'Привет [music]' },
+    expected: { user: 'Hello there', model: 'Привет' },
+  },
+  {
+    name: 'noise-only turn',
+    turn: { user: '<noise>', model: '...' },
+    expected: { user: '', model: '' },
+  },
+  {
+    name: 'stray number',
+    turn: { user: '42', model: 'Static' },
+    expected: { user: '', model: '' },
+  },
+  {
+    name: 'number inside speech',
+    turn: { user: 'Room 42, please', model: 'Номер 42, пожалуйста' },
+    expected: { user: 'Room 42, please', model: 'Номер 42, пожалуйста' },
+  },
+];
+
+export const PROFANITY_FIXTURES: TranscriptFixture[] = [
+  {
+    name: 'English and Russian stems',
+    turn: { user: 'This is fucking broken', model: 'Это, бля, сломано' },
+    expected: { user: 'This is f****** broken', model: 'Это, б**, сломано' },
+  },
+  {
+    name: 'clean text',
+    turn: { user: 'Shiitake mushrooms', model: 'Грибы шиитаке' },
+    expected: { user: 'Shiitake mushrooms', model: 'Грибы шиитаке' },
+  },
+];
@@ -0,0 +1,48 @@
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import type { CaptureProcessorOptions } from './captureWorklet';
+
+export const DEFAULT_CHUNK_SIZE = 4096;
+
+export interface AudioCapture {
+  node: AudioWorkletNode;
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Connects `source` to an AudioWorklet that delivers 16 kHz Int16 PCM in chunks of
+ * `chunkSize` samples, whatever rate the context actually runs at.
+ */
+export async function createAudioCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  onChunk: (pcm: Int16Array) => void,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+): Promise<AudioCapture> {
+  if (!loadedContexts.has(ctx)) {
+    await ctx.audioWorklet.addModule(captureWorkletUrl);
+    loadedContexts.add(ctx);
+  }
+
+  const processorOptions: CaptureProcessorOptions = { chunkSize };
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => onChunk(e.data);
+  source.connect(node);
+
+  return {
+    node,
+    stop: () => {
+      node.port.onmessage = null;
+      node.port.postMessage('stop');
+      try { source.disconnect(node); } catch (e) {}
+      node.disconnect();
+    },
+  };
+}
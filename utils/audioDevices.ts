@@ -0,0 +1,35 @@
+export interface AudioDeviceSettings {
+  /** Empty string means the system default device. */
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Linear gain applied after the browser's own processing. */
+  inputGain: number;
+}
+
+export const DEFAULT_AUDIO_DEVICE_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGain: 1,
+};
+
+/** The chosen microphone is only `ideal`, so an unplugged device falls back to the default instead of failing. */
+export const audioConstraints = (settings: AudioDeviceSettings): MediaTrackConstraints => ({
+  deviceId: settings.inputDeviceId ? { ideal: settings.inputDeviceId } : undefined,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+// AudioContext.setSinkId is newer than the DOM typings; browsers without it keep the default output
+type SinkTarget = { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const supportsOutputSelection = () => 'setSinkId' in AudioContext.prototype;
+
+export const applyOutputDevice = (target: AudioContext | HTMLMediaElement, deviceId: string) =>
+  (target as unknown as SinkTarget).setSinkId?.(deviceId).catch(err => console.error('Could not switch output device:', err));
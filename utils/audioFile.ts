@@ -0,0 +1,102 @@
+import { PCM_SAMPLE_RATE, floatTo16BitPCM, resample } from './audioUtils';
+
+/** File types offered by the import picker; anything the browser's decoder understands also works. */
+export const AUDIO_FILE_ACCEPT = 'audio/wav,audio/x-wav,audio/mpeg,audio/ogg,audio/webm,.wav,.mp3,.ogg,.oga,.opus,.webm';
+
+export class AudioFileError extends Error {}
+
+/** Decodes a WAV/MP3/OGG/WebM file to the 16 kHz mono Int16 PCM the Live engines take. */
+export async function decodeAudioFile(file: Blob): Promise<Int16Array> {
+  const ctx = new AudioContext();
+  let buffer: AudioBuffer;
+  try {
+    buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new AudioFileError('This file could not be decoded as audio.');
+  } finally {
+    ctx.close();
+  }
+  if (buffer.length === 0) throw new AudioFileError('The audio file is empty.');
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return floatTo16BitPCM(resample(mono, buffer.sampleRate, PCM_SAMPLE_RATE));
+}
+
+export interface SpeechSegment {
+  /** Sample offsets into the 16 kHz PCM; `end` is exclusive. */
+  start: number;
+  end: number;
+}
+
+export interface SilenceSplitOptions {
+  frameMs: number;
+  /** Frames quieter than this (dBFS) count as silence. */
+  thresholdDb: number;
+  /** Pause length that ends an utterance. */
+  minSilenceMs: number;
+  /** Utterances are cut at their quietest frame once they grow past this. */
+  maxSegmentMs: number;
+}
+
+export const DEFAULT_SILENCE_SPLIT: SilenceSplitOptions = { frameMs: 30, thresholdDb: -45, minSilenceMs: 700, maxSegmentMs: 15000 };
+
+/** Finds the utterances of a recording by cutting it at pauses. Leading and trailing silence is dropped. */
+export function splitOnSilence(pcm: Int16Array, options: SilenceSplitOptions = DEFAULT_SILENCE_SPLIT): SpeechSegment[] {
+  const frame = Math.round((options.frameMs / 1000) * PCM_SAMPLE_RATE);
+  const levels: number[] = [];
+  for (let start = 0; start < pcm.length; start += frame) {
+    const end = Math.min(pcm.length, start + frame);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += (pcm[i] / 32768) ** 2;
+    levels.push(10 * Math.log10(sum / (end - start) + 1e-12));
+  }
+
+  const minSilenceFrames = Math.ceil(options.minSilenceMs / options.frameMs);
+  const maxFrames = Math.floor(options.maxSegmentMs / options.frameMs);
+  const segments: SpeechSegment[] = [];
+  const push = (from: number, to: number) => segments.push({ start: from * frame, end: Math.min(pcm.length, to * frame) });
+
+  let segmentStart = -1;
+  let silentRun = 0;
+  for (let i = 0; i < levels.length; i++) {
+    const voiced = levels[i] >= options.thresholdDb;
+    if (segmentStart < 0) {
+      if (voiced) {
+        segmentStart = i;
+        silentRun = 0;
+      }
+      continue;
+    }
+    silentRun = voiced ? 0 : silentRun + 1;
+    if (silentRun >= minSilenceFrames) {
+      push(segmentStart, i - silentRun + 1);
+      segmentStart = -1;
+    } else if (i - segmentStart + 1 >= maxFrames) {
+      // Cut in the quieter second half so words are less likely to be split
+      let quietest = i;
+      for (let j = segmentStart + Math.floor(maxFrames / 2); j <= i; j++) if (levels[j] < levels[quietest]) quietest = j;
+      push(segmentStart, quietest + 1);
+      segmentStart = quietest + 1 <= i ? quietest + 1 : -1;
+      silentRun = 0;
+    }
+  }
+  if (segmentStart >= 0) push(segmentStart, levels.length - silentRun);
+  return segments.filter(s => s.end > s.start);
+}
+
+/** Groups consecutive utterances into spans of at most `maxSamples`, for engines that take whole recordings. */
+export function groupSegments(segments: SpeechSegment[], maxSamples: number): SpeechSegment[] {
+  const groups: SpeechSegment[] = [];
+  segments.forEach(segment => {
+    const last = groups[groups.length - 1];
+    if (last && segment.end - last.start <= maxSamples) last.end = segment.end;
+    else groups.push({ ...segment });
+  });
+  return groups;
+}
+
+export const samplesToMs = (samples: number) => Math.round((samples / PCM_SAMPLE_RATE) * 1000);
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { StreamingResampler, floatTo16BitPCM, resample } from './audioUtils';
+
+/** Samples equal to their own index, so every output sample shows where it was taken from. */
+const ramp = (length: number) => Float32Array.from({ length }, (_, i) => i);
+
+const streamInChunks = (resampler: StreamingResampler, input: Float32Array, sizes: number[]) => {
+  const out: number[] = [];
+  for (let offset = 0, k = 0; offset < input.length; k++) {
+    const size = sizes[k % sizes.length];
+    out.push(...resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return Float32Array.from(out);
+};
+
+describe('resample', () => {
+  it.each([48000, 44100])('turns one second at %i Hz into one second at 16 kHz', fromRate => {
+    expect(resample(new Float32Array(fromRate), fromRate, 16000)).toHaveLength(16000);
+  });
+
+  it.each([48000, 44100])('keeps the duration of an odd-length buffer at %i Hz', fromRate => {
+    expect(resample(new Float32Array(12345), fromRate, 16000)).toHaveLength(Math.round((12345 * 16000) / fromRate));
+  });
+
+  it('averages the samples each output covers when going from 48 kHz', () => {
+    expect(Array.from(resample(ramp(9), 48000, 16000))).toEqual([1, 4, 7]);
+  });
+
+  it('returns a copy at the same rate', () => {
+    const input = Float32Array.from([0.1, -0.2, 0.3]);
+    expect(resample(input, 16000, 16000)).toEqual(input);
+  });
+});
+
+describe('StreamingResampler', () => {
+  // Sizes that are not multiples of the rate ratio, including AudioWorklet's 128-frame quanta
+  const chunkSizes = [128, 1, 77, 4096, 333, 2];
+
+  it.each([48000, 44100])('gives the same output from %i Hz streamed in chunks as in one piece', fromRate => {
+    const input = ramp(20000);
+    const whole = new StreamingResampler(fromRate, 16000).process(input);
+    const streamed = streamInChunks(new StreamingResampler(fromRate, 16000), input, chunkSizes);
+    expect(streamed).toEqual(whole);
+  });
+
+  it.each([48000, 44100])('neither skips nor repeats input across chunk boundaries at %i Hz', fromRate => {
+    const ratio = fromRate / 16000;
+    const out = streamInChunks(new StreamingResampler(fromRate, 16000), ramp(20000), chunkSizes);
+    for (let i = 1; i < out.length; i++) {
+      const step = out[i] - out[i - 1];
+      expect(step).toBeGreaterThan(ratio - 1);
+      expect(step).toBeLessThan(ratio + 1);
+    }
+    expect(Math.abs(out.length - (20000 * 16000) / fromRate)).toBeLessThanOrEqual(1);
+  });
+
+  it('interpolates between chunks when upsampling', () => {
+    const resampler = new StreamingResampler(8000, 16000);
+    const out = [...resampler.process(ramp(3)), ...resampler.process(Float32Array.from([3, 4]))];
+    expect(out).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5]);
+  });
+
+  it('starts over after reset', () => {
+    const resampler = new StreamingResampler(48000, 16000);
+    resampler.process(ramp(4));
+    resampler.reset();
+    expect(Array.from(resampler.process(ramp(3)))).toEqual([1]);
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('maps full scale to the Int16 limits', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('clamps samples beyond full scale instead of wrapping around', () => {
+    const pcm = floatTo16BitPCM(Float32Array.from([1.0001, 1.5, 40, Infinity, -1.0001, -2, -Infinity]));
+    expect(Array.from(pcm)).toEqual([32767, 32767, 32767, 32767, -32768, -32768, -32768]);
+  });
+
+  it('scales samples in between', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([0.5, -0.5])))).toEqual([16383, -16384]);
+  });
+});
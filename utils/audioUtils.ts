@@ -18,6 +18,37 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+/** Wraps 16-bit PCM in a RIFF/WAVE container. */
+export function encodeWav(pcm: Int16Array, sampleRate: number, numChannels: number = 1): Uint8Array {
+  const dataSize = pcm.length * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < pcm.length; i++) view.setInt16(44 + i * 2, pcm[i], true);
+  return bytes;
+}
+
+export function concatPcm(chunks: Int16Array[]): Int16Array {
+  const out = new Int16Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  chunks.reduce((offset, c) => { out.set(c, offset); return offset + c.length; }, 0);
+  return out;
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -37,14 +68,96 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
+export const PCM_SAMPLE_RATE = 16000;
+
+/** Converts float samples to 16-bit PCM, clamping to [-1, 1] so full-scale input cannot wrap around. */
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
   }
+  return int16;
+}
+
+export function pcmToBlob(int16: Int16Array, sampleRate: number = PCM_SAMPLE_RATE): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
+  return pcmToBlob(floatTo16BitPCM(data));
+}
+
+/**
+ * Streaming sample-rate converter. Downsampling averages the input samples covered by each
+ * output sample (a box low-pass against aliasing); upsampling interpolates linearly. Samples
+ * not yet consumed are carried over, and positions are derived from whole-sample counts rather
+ * than an accumulated float, so chunk boundaries do not introduce clicks or drift.
+ */
+export class StreamingResampler {
+  private pending = new Float32Array(0);
+  // Input samples dropped from `pending` and output samples produced since the start
+  private consumed = 0;
+  private produced = 0;
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    if (fromRate <= 0 || toRate <= 0) throw new RangeError('Sample rates must be positive');
+  }
+
+  /** Index of the input sample the given output sample starts at. */
+  private startOf(outputIndex: number) {
+    return Math.floor((outputIndex * this.fromRate) / this.toRate);
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input.slice();
+
+    const buffer = new Float32Array(this.pending.length + input.length);
+    buffer.set(this.pending);
+    buffer.set(input, this.pending.length);
+
+    const output: number[] = [];
+    const available = this.consumed + buffer.length;
+    if (this.fromRate > this.toRate) {
+      while (this.startOf(this.produced + 1) <= available) {
+        const start = this.startOf(this.produced) - this.consumed;
+        const end = Math.max(start + 1, this.startOf(this.produced + 1) - this.consumed);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += buffer[i];
+        output.push(sum / (end - start));
+        this.produced++;
+      }
+    } else {
+      while (this.startOf(this.produced) + 1 < available) {
+        const i = this.startOf(this.produced) - this.consumed;
+        const frac = ((this.produced * this.fromRate) % this.toRate) / this.toRate;
+        output.push(buffer[i] + (buffer[i + 1] - buffer[i]) * frac);
+        this.produced++;
+      }
+    }
+
+    const dropped = Math.min(this.startOf(this.produced) - this.consumed, buffer.length);
+    this.pending = buffer.slice(dropped);
+    this.consumed += dropped;
+    return Float32Array.from(output);
+  }
+
+  reset() {
+    this.pending = new Float32Array(0);
+    this.consumed = 0;
+    this.produced = 0;
+  }
+}
+
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  // Pad with the last sample so the final output frame is emitted instead of waiting for more input
+  const padded = new Float32Array(input.length + Math.ceil(fromRate / toRate));
+  padded.set(input);
+  padded.fill(input.length > 0 ? input[input.length - 1] : 0, input.length);
+  const out = new StreamingResampler(fromRate, toRate).process(padded);
+  return out.subarray(0, Math.round((input.length * toRate) / fromRate));
+}
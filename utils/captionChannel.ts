@@ -0,0 +1,62 @@
+// Presenter mode mirrors its captions to other windows of the same origin (e.g. a projector tab)
+// over a BroadcastChannel. The controlling window answers `hello` with the current state.
+import { ChatMessage } from '../types';
+
+export interface CaptionSettings {
+  fontSize: number;
+  lineCount: number;
+  dark: boolean;
+  showSource: boolean;
+  /** Run the Live session without synthesized speech while presenting. */
+  textOnly: boolean;
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  fontSize: 48,
+  lineCount: 3,
+  dark: true,
+  showSource: false,
+  textOnly: true,
+};
+
+export interface CaptionLine {
+  id: string;
+  translation: string;
+  source?: string;
+  /** Still being spoken; shown dimmed until the turn completes. */
+  partial?: boolean;
+}
+
+export interface CaptionState {
+  lines: CaptionLine[];
+  settings: CaptionSettings;
+}
+
+export type CaptionMessage =
+  | { type: 'hello' }
+  | { type: 'state'; state: CaptionState }
+  | { type: 'closed' };
+
+const CHANNEL_NAME = 'voice-match-captions';
+
+export const openCaptionChannel = (onMessage: (message: CaptionMessage) => void) => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<CaptionMessage>) => onMessage(e.data);
+  return {
+    post: (message: CaptionMessage) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+/** The last `lineCount` translated turns, each with the source spoken in the same turn, plus the one in progress. */
+export function buildCaptionLines(messages: ChatMessage[], live: { user: string; model: string }, lineCount: number): CaptionLine[] {
+  const lines: CaptionLine[] = messages
+    .filter(m => m.sender === 'model')
+    .map(m => ({
+      id: m.id,
+      translation: m.text,
+      source: m.turnId ? messages.find(u => u.sender === 'user' && u.turnId === m.turnId)?.text : undefined,
+    }));
+  if (live.user || live.model) lines.push({ id: 'live', translation: live.model, source: live.user, partial: true });
+  return lines.slice(-lineCount);
+}
@@ -0,0 +1,52 @@
+// Runs inside AudioWorkletGlobalScope: resamples microphone input to 16 kHz, converts it to
+// Int16 PCM and posts fixed-size chunks to the main thread.
+import { StreamingResampler, floatTo16BitPCM, PCM_SAMPLE_RATE } from './audioUtils';
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+export interface CaptureProcessorOptions {
+  chunkSize: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private resampler = new StreamingResampler(sampleRate, PCM_SAMPLE_RATE);
+  private chunk: Float32Array;
+  private filled = 0;
+  private active = true;
+
+  constructor(options: { processorOptions: CaptureProcessorOptions }) {
+    super();
+    this.chunk = new Float32Array(options.processorOptions.chunkSize);
+    this.port.onmessage = (e: MessageEvent) => {
+      if (e.data === 'stop') this.active = false;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (!this.active) return false;
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    const samples = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(this.chunk.length - this.filled, samples.length - offset);
+      this.chunk.set(samples.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.chunk.length) {
+        const pcm = floatTo16BitPCM(this.chunk);
+        this.port.postMessage(pcm, [pcm.buffer]);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
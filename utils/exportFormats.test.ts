@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { ImportError, parseConversationJson } from './exportFormats';
+
+const conversation = { id: 'c1', title: 'Station', kind: 'live', pair: { source: 'en', target: 'ru' }, createdAt: 1000, updatedAt: 2000, messageCount: 1, preview: 'Hi' };
+const message = { id: 'm1', conversationId: 'c1', sender: 'user', text: 'Hi', timestamp: 1000, pair: { source: 'en', target: 'ru' } };
+const file = (overrides: { conversation?: object; messages?: object[] }) =>
+  JSON.stringify({ format: 'voice-match-conversation', version: 1, conversation, messages: [message], ...overrides });
+
+describe('parseConversationJson', () => {
+  it('falls back to the conversation pair for a message with a missing or malformed pair', () => {
+    const { messages } = parseConversationJson(file({ messages: [{ ...message, pair: undefined }, { ...message, id: 'm2', pair: { source: 'xx' } }] }));
+    expect(messages.map(m => m.pair)).toEqual([conversation.pair, conversation.pair]);
+  });
+
+  it('drops recorded-clip metadata, since the clips are not in the file', () => {
+    const { messages } = parseConversationJson(file({ messages: [{ ...message, audio: { sampleRate: 16000, durationMs: 900 } }] }));
+    expect(messages[0].audio).toBeUndefined();
+  });
+
+  it.each([
+    ['title', { title: 5 }],
+    ['kind', { kind: 'video' }],
+    ['createdAt', { createdAt: '2024-01-01' }],
+    ['pair', { pair: { source: 'en' } }],
+  ])('rejects a conversation with a malformed %s', (_, patch) => {
+    expect(() => parseConversationJson(file({ conversation: { ...conversation, ...patch } }))).toThrow(ImportError);
+  });
+});
@@ -0,0 +1,189 @@
+import { ChatMessage, Conversation, ConversationKind } from '../types';
+import { getLanguage, isLanguagePair } from './languages';
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SRT subtitles', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT subtitles', mimeType: 'text/vtt' },
+  { format: 'md', label: 'Markdown transcript', mimeType: 'text/markdown' },
+  { format: 'json', label: 'JSON (re-importable)', mimeType: 'application/json' },
+];
+
+const JSON_FORMAT_ID = 'voice-match-conversation';
+const JSON_FORMAT_VERSION = 1;
+const MIN_CUE_MS = 1000;
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+interface Turn {
+  source?: ChatMessage;
+  translation?: ChatMessage;
+}
+
+/** Rough reading time for messages recorded without real turn boundaries (keyboard input, older history). */
+const estimateDuration = (text: string) => Math.max(1500, text.length * 60);
+
+/** Time zero of a conversation's cues: the start of an imported file, or else its first message. */
+const timeOrigin = (messages: ChatMessage[], conversation?: Conversation) =>
+  conversation?.sourceFile ? conversation.createdAt : Math.min(...messages.map(m => m.startedAt ?? m.timestamp));
+
+const buildCues = (messages: ChatMessage[], conversation?: Conversation): Cue[] => {
+  if (messages.length === 0) return [];
+  const origin = timeOrigin(messages, conversation);
+  return messages.map(m => {
+    const start = (m.startedAt ?? m.timestamp) - origin;
+    const end = m.endedAt !== undefined ? m.endedAt - origin : start + estimateDuration(m.text);
+    return {
+      start,
+      end: Math.max(end, start + MIN_CUE_MS),
+      speaker: m.lang ? getLanguage(m.lang).name : m.sender,
+      text: m.text,
+    };
+  });
+};
+
+/** Pairs each source message with its translation, by turn id where recorded and by adjacency otherwise. */
+export const groupTurns = (messages: ChatMessage[]): Turn[] => {
+  const turns: Turn[] = [];
+  const byTurnId = new Map<string, Turn>();
+  messages.forEach(m => {
+    const key = m.sender === 'user' ? 'source' : 'translation';
+    if (m.turnId) {
+      let turn = byTurnId.get(m.turnId);
+      if (!turn) {
+        turn = {};
+        byTurnId.set(m.turnId, turn);
+        turns.push(turn);
+      }
+      turn[key] = m;
+      return;
+    }
+    const last = turns[turns.length - 1];
+    if (key === 'translation' && last && last.source && !last.translation && !last.source.turnId) {
+      last.translation = m;
+    } else {
+      turns.push({ [key]: m });
+    }
+  });
+  return turns;
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export const toSrt = (messages: ChatMessage[], conversation?: Conversation): string =>
+  buildCues(messages, conversation)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toWebVtt = (messages: ChatMessage[], conversation?: Conversation): string =>
+  ['WEBVTT', '', ...buildCues(messages, conversation).map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`
+  )].join('\n');
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+export const toMarkdown = (conversation: Conversation, messages: ChatMessage[]): string => {
+  const source = getLanguage(conversation.pair.source).name;
+  const target = getLanguage(conversation.pair.target).name;
+  const origin = messages.length > 0 ? timeOrigin(messages, conversation) : conversation.createdAt;
+  const rows = groupTurns(messages).map(turn => {
+    const first = turn.source || turn.translation!;
+    const time = formatTimestamp((first.startedAt ?? first.timestamp) - origin, '.').slice(0, 8);
+    return `| ${time} | ${escapeCell(turn.source?.text || '')} | ${escapeCell(turn.translation?.text || '')} |`;
+  });
+  return [
+    `# ${conversation.title}`,
+    '',
+    `- **Languages:** ${source} ↔ ${target}`,
+    `- **Started:** ${new Date(conversation.createdAt).toLocaleString()}`,
+    `- **Messages:** ${messages.length}`,
+    '',
+    '| Time | Original | Translation |',
+    '| --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+};
+
+export const toJson = (conversation: Conversation, messages: ChatMessage[]): string =>
+  JSON.stringify({ format: JSON_FORMAT_ID, version: JSON_FORMAT_VERSION, conversation, messages }, null, 2);
+
+export class ImportError extends Error {}
+
+const CONVERSATION_KINDS: ConversationKind[] = ['live', 'keyboard', 'file', 'shared'];
+
+/** Parses a file produced by {@link toJson}; throws ImportError when it is not a conversation export. */
+export const parseConversationJson = (text: string): { conversation: Conversation; messages: ChatMessage[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError('File is not valid JSON.');
+  }
+  if (data?.format !== JSON_FORMAT_ID) throw new ImportError('File is not a Voice Match conversation export.');
+  if (data.version > JSON_FORMAT_VERSION) throw new ImportError(`Unsupported export version ${data.version}.`);
+  const { conversation, messages } = data;
+  if (
+    typeof conversation?.id !== 'string' || !conversation.id || typeof conversation.title !== 'string'
+    || !CONVERSATION_KINDS.includes(conversation.kind) || !isLanguagePair(conversation.pair)
+    || typeof conversation.createdAt !== 'number' || !Array.isArray(messages)
+  ) {
+    throw new ImportError('Conversation export is incomplete.');
+  }
+  const imported: ChatMessage[] = messages.map((m: any) => {
+    if (typeof m?.id !== 'string' || typeof m.text !== 'string' || typeof m.timestamp !== 'number' || (m.sender !== 'user' && m.sender !== 'model')) {
+      throw new ImportError('Conversation export contains a malformed message.');
+    }
+    // Recorded clips are not part of the export, so their metadata would point at nothing
+    const { audio, ...message } = m;
+    return { ...message, pair: isLanguagePair(m.pair) ? m.pair : conversation.pair, conversationId: conversation.id };
+  });
+  return {
+    conversation: {
+      ...conversation,
+      updatedAt: typeof conversation.updatedAt === 'number' ? conversation.updatedAt : conversation.createdAt,
+      preview: typeof conversation.preview === 'string' ? conversation.preview : '',
+      messageCount: imported.length,
+    },
+    messages: imported,
+  };
+};
+
+export const exportConversation = (format: ExportFormat, conversation: Conversation, messages: ChatMessage[]): string => {
+  switch (format) {
+    case 'srt': return toSrt(messages, conversation);
+    case 'vtt': return toWebVtt(messages, conversation);
+    case 'md': return toMarkdown(conversation, messages);
+    case 'json': return toJson(conversation, messages);
+  }
+};
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportFilename = (conversation: Conversation, format: ExportFormat) => {
+  const slug = conversation.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'conversation';
+  return `${slug}.${format}`;
+};
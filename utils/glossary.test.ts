@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryEntry } from '../types';
+import { checkGlossary } from './glossary';
+
+const entry = (source: GlossaryEntry['pair']['source'], target: GlossaryEntry['pair']['target'], sourceTerm: string, targetTerm: string): GlossaryEntry =>
+  ({ id: `${sourceTerm}-${targetTerm}`, pair: { source, target }, sourceTerm, targetTerm });
+
+describe('checkGlossary', () => {
+  const enZh = { source: 'en', target: 'zh' } as const;
+
+  it('finds a required term inside Chinese text without spaces', () => {
+    expect(checkGlossary('We use Acme products', '我们使用艾克美产品', [entry('en', 'zh', 'Acme', '艾克美')], enZh)).toEqual([]);
+  });
+
+  it('flags Chinese text missing the required term', () => {
+    expect(checkGlossary('We use Acme products', '我们使用阿克米产品', [entry('en', 'zh', 'Acme', '艾克美')], enZh)).toEqual(['"Acme" should be "艾克美"']);
+  });
+
+  it('finds a kept Latin term between Chinese characters', () => {
+    expect(checkGlossary('We use Acme products', '我们使用Acme产品', [entry('en', 'zh', 'Acme', 'Acme')], enZh)).toEqual([]);
+  });
+
+  it('applies reverse-pair entries to a Chinese source', () => {
+    expect(checkGlossary('我们使用艾克美产品', 'We use Acme products', [entry('en', 'zh', 'Acme', '艾克美')], { source: 'zh', target: 'en' })).toEqual([]);
+  });
+
+  it('still matches whole words in spaced scripts', () => {
+    const entries = [entry('en', 'de', 'cart', 'Warenkorb')];
+    const enDe = { source: 'en', target: 'de' } as const;
+    expect(checkGlossary('Open the shopping cartridge', 'Öffne die Patrone', entries, enDe)).toEqual([]);
+    expect(checkGlossary('Open the cart', 'Öffne den Einkaufswagen', entries, enDe)).toEqual(['"cart" should be "Warenkorb"']);
+    expect(checkGlossary('Open the Cart.', 'Öffne den warenkorb.', entries, enDe)).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { GlossaryEntry, LanguageCode, LanguagePair, LiveMode } from '../types';
+import { LANGUAGE_CODES, getLanguage } from './languages';
+
+export interface GlossaryRule {
+  from: string;
+  to: string;
+}
+
+export const isKeepTerm = (entry: GlossaryEntry) => entry.sourceTerm === entry.targetTerm;
+
+/** Rules for one translation direction; entries stored for the reverse pair are applied inverted. */
+export const glossaryRules = (entries: GlossaryEntry[], dir: LanguagePair): GlossaryRule[] =>
+  entries.flatMap(e => {
+    if (e.pair.source === dir.source && e.pair.target === dir.target) return [{ from: e.sourceTerm, to: e.targetTerm }];
+    if (e.pair.source === dir.target && e.pair.target === dir.source) return [{ from: e.targetTerm, to: e.sourceTerm }];
+    return [];
+  });
+
+export const entriesForPair = (entries: GlossaryEntry[], pair: LanguagePair) =>
+  entries.filter(e =>
+    (e.pair.source === pair.source && e.pair.target === pair.target) ||
+    (e.pair.source === pair.target && e.pair.target === pair.source));
+
+const describeRules = (rules: GlossaryRule[], source: string, target: string) =>
+  rules.map(r => r.from === r.to
+    ? `- "${r.from}" must stay exactly "${r.to}" (never translate it).`
+    : `- ${source} "${r.from}" must always be translated as ${target} "${r.to}".`);
+
+/** Prompt section listing the glossary for a Live session or text request; empty when no rule applies. */
+export const buildGlossaryInstruction = (entries: GlossaryEntry[], dir: LanguagePair, mode: LiveMode = 'directed') => {
+  const lines = describeRules(glossaryRules(entries, dir), getLanguage(dir.source).name, getLanguage(dir.target).name);
+  if (mode === 'conversation') {
+    const reverse = { source: dir.target, target: dir.source };
+    lines.push(...describeRules(glossaryRules(entries, reverse), getLanguage(reverse.source).name, getLanguage(reverse.target).name));
+  }
+  if (lines.length === 0) return '';
+  return `GLOSSARY (mandatory terminology):\n${Array.from(new Set(lines)).join('\n')}`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words, where a term's neighbours are letters of other words
+const UNSPACED = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}';
+const UNSPACED_CHAR = new RegExp(`[${UNSPACED}]`, 'u');
+
+const containsTerm = (text: string, term: string) => {
+  if (UNSPACED_CHAR.test(term)) return text.toLowerCase().includes(term.toLowerCase());
+  const edge = `[^\\p{L}\\p{N}]|[${UNSPACED}]`;
+  return new RegExp(`(?<=^|${edge})${escapeRegExp(term)}(?=$|${edge})`, 'iu').test(text);
+};
+
+/** Returns a description of every rule whose source term occurs in `source` but whose required term is missing from `translation`. */
+export const checkGlossary = (source: string, translation: string, entries: GlossaryEntry[], dir: LanguagePair): string[] =>
+  glossaryRules(entries, dir)
+    .filter(r => containsTerm(source, r.from) && !containsTerm(translation, r.to))
+    .map(r => (r.from === r.to ? `"${r.from}" should not be translated` : `"${r.from}" should be "${r.to}"`));
+
+const CSV_HEADER = ['source_lang', 'target_lang', 'source_term', 'target_term'];
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toGlossaryCsv = (entries: GlossaryEntry[]) =>
+  [CSV_HEADER, ...entries.map(e => [e.pair.source, e.pair.target, e.sourceTerm, e.targetTerm])]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += c;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export class GlossaryImportError extends Error {}
+
+/**
+ * Parses glossary CSV. Rows are `source_lang,target_lang,source_term,target_term`; an empty target
+ * term marks a term that must not be translated. Two-column rows (`source_term,target_term`) use `fallbackPair`.
+ */
+export const parseGlossaryCsv = (text: string, fallbackPair: LanguagePair): GlossaryEntry[] => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length > 0 && rows[0][0].trim().toLowerCase() === CSV_HEADER[0]) rows.shift();
+  const isLang = (code: string): code is LanguageCode => (LANGUAGE_CODES as string[]).includes(code);
+
+  return rows.map((cells, i) => {
+    const [a, b, c, d] = cells.map(cell => cell.trim());
+    let pair = fallbackPair;
+    let sourceTerm = a;
+    let targetTerm = b;
+    if (cells.length >= 3) {
+      if (!isLang(a) || !isLang(b) || a === b) throw new GlossaryImportError(`Row ${i + 1}: unknown language pair "${a},${b}".`);
+      pair = { source: a, target: b };
+      sourceTerm = c;
+      targetTerm = d;
+    }
+    if (!sourceTerm) throw new GlossaryImportError(`Row ${i + 1}: source term is empty.`);
+    return { id: `g-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 6)}`, pair, sourceTerm, targetTerm: targetTerm || sourceTerm };
+  });
+};
+
+/** Adds imported entries, replacing existing ones with the same pair and source term. */
+export const mergeGlossary = (existing: GlossaryEntry[], imported: GlossaryEntry[]) => {
+  const key = (e: GlossaryEntry) => `${e.pair.source}|${e.pair.target}|${e.sourceTerm.toLowerCase()}`;
+  const importedKeys = new Set(imported.map(key));
+  return [...existing.filter(e => !importedKeys.has(key(e))), ...imported];
+};
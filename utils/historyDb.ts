@@ -0,0 +1,172 @@
+import { ChatMessage, Conversation, StoredAudioClip } from '../types';
+
+const DB_NAME = 'voice-match';
+const DB_VERSION = 2;
+const CONVERSATIONS = 'conversations';
+const MESSAGES = 'messages';
+const AUDIO = 'audio';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+          db.createObjectStore(CONVERSATIONS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(MESSAGES)) {
+          db.createObjectStore(MESSAGES, { keyPath: 'id' }).createIndex('conversationId', 'conversationId');
+        }
+        if (!db.objectStoreNames.contains(AUDIO)) {
+          db.createObjectStore(AUDIO, { keyPath: 'messageId' }).createIndex('conversationId', 'conversationId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS, 'readwrite');
+  tx.objectStore(CONVERSATIONS).put(conversation);
+  await done(tx);
+}
+
+export async function saveMessage(message: ChatMessage): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], 'readwrite');
+  const conversations = tx.objectStore(CONVERSATIONS);
+  const messages = tx.objectStore(MESSAGES);
+  // Saving a message again, e.g. one a shared conversation relays twice, must not count it twice
+  const isNew = (await promisify(messages.getKey(message.id))) === undefined;
+  messages.put(message);
+  const conversation = await promisify<Conversation | undefined>(conversations.get(message.conversationId));
+  if (conversation) {
+    conversations.put({
+      ...conversation,
+      updatedAt: Math.max(conversation.updatedAt, message.timestamp),
+      messageCount: conversation.messageCount + (isNew ? 1 : 0),
+      preview: conversation.preview || message.text,
+    });
+  }
+  await done(tx);
+}
+
+export async function patchMessage(id: string, patch: Partial<ChatMessage>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(MESSAGES, 'readwrite');
+  const store = tx.objectStore(MESSAGES);
+  const message = await promisify<ChatMessage | undefined>(store.get(id));
+  if (message) store.put({ ...message, ...patch });
+  await done(tx);
+}
+
+/** Writes a conversation and its messages as-is, replacing any stored copy with the same id. */
+export async function importConversation(conversation: Conversation, messages: ChatMessage[]): Promise<void> {
+  await deleteConversation(conversation.id);
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], 'readwrite');
+  const last = messages.reduce((max, m) => Math.max(max, m.timestamp), conversation.updatedAt);
+  tx.objectStore(CONVERSATIONS).put({ ...conversation, messageCount: messages.length, updatedAt: last });
+  messages.forEach(m => tx.objectStore(MESSAGES).put(m));
+  await done(tx);
+}
+
+export async function listConversations(): Promise<Conversation[]> {
+  const db = await openDb();
+  const all = await promisify<Conversation[]>(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).getAll());
+  return all.filter(c => c.messageCount > 0).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  const db = await openDb();
+  return promisify<Conversation | undefined>(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).get(id));
+}
+
+export async function getConversationMessages(conversationId: string): Promise<ChatMessage[]> {
+  const db = await openDb();
+  const index = db.transaction(MESSAGES).objectStore(MESSAGES).index('conversationId');
+  const messages = await promisify<ChatMessage[]>(index.getAll(conversationId));
+  return messages.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function deleteConversation(conversationId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES, AUDIO], 'readwrite');
+  tx.objectStore(CONVERSATIONS).delete(conversationId);
+  for (const storeName of [MESSAGES, AUDIO]) {
+    const store = tx.objectStore(storeName);
+    const keys = await promisify(store.index('conversationId').getAllKeys(conversationId));
+    keys.forEach(key => store.delete(key));
+  }
+  await done(tx);
+}
+
+export async function saveAudioClip(clip: StoredAudioClip): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO, 'readwrite');
+  tx.objectStore(AUDIO).put(clip);
+  await done(tx);
+}
+
+export async function getAudioClip(messageId: string): Promise<StoredAudioClip | undefined> {
+  const db = await openDb();
+  return promisify<StoredAudioClip | undefined>(db.transaction(AUDIO).objectStore(AUDIO).get(messageId));
+}
+
+export interface SearchHit {
+  conversation: Conversation;
+  matches: ChatMessage[];
+}
+
+/** Case-insensitive search over the original and translated text of every stored message; all words must match. */
+export async function searchConversations(query: string): Promise<SearchHit[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return (await listConversations()).map(conversation => ({ conversation, matches: [] }));
+
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES]);
+  const [conversations, messages] = await Promise.all([
+    promisify<Conversation[]>(tx.objectStore(CONVERSATIONS).getAll()),
+    promisify<ChatMessage[]>(tx.objectStore(MESSAGES).getAll()),
+  ]);
+
+  const matchesByConversation = new Map<string, ChatMessage[]>();
+  messages.forEach(message => {
+    const haystack = message.text.toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return;
+    const list = matchesByConversation.get(message.conversationId) || [];
+    list.push(message);
+    matchesByConversation.set(message.conversationId, list);
+  });
+
+  return conversations
+    .filter(c => matchesByConversation.has(c.id) || terms.every(term => c.title.toLowerCase().includes(term)))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(conversation => ({
+      conversation,
+      matches: (matchesByConversation.get(conversation.id) || []).sort((a, b) => a.timestamp - b.timestamp),
+    }));
+}
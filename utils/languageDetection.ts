@@ -0,0 +1,73 @@
+import { LanguageCode } from '../types';
+
+interface LanguageProfile {
+  script: RegExp;
+  distinctive?: RegExp;
+  stopwords: string[];
+}
+
+const LATIN = /[a-z]/gi;
+const CYRILLIC = /[Ѐ-ӿ]/g;
+const HAN = /[一-鿿]/g;
+
+const PROFILES: Record<LanguageCode, LanguageProfile> = {
+  en: { script: LATIN, stopwords: ['the', 'and', 'is', 'are', 'you', 'what', 'this', 'that', 'with', 'have', 'it', 'of', 'to', 'do'] },
+  de: { script: LATIN, distinctive: /[äöüß]/gi, stopwords: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'wir', 'ein', 'eine', 'zu', 'mit', 'haben'] },
+  es: { script: LATIN, distinctive: /[ñ¿¡áéíóú]/gi, stopwords: ['el', 'la', 'los', 'las', 'y', 'es', 'que', 'de', 'en', 'un', 'una', 'por', 'para', 'no', 'está'] },
+  ru: { script: CYRILLIC, distinctive: /[ыэъё]/gi, stopwords: ['и', 'не', 'что', 'это', 'как', 'вы', 'мы', 'он', 'она', 'где', 'есть', 'да', 'нет'] },
+  uk: { script: CYRILLIC, distinctive: /[іїєґ]/gi, stopwords: ['і', 'не', 'що', 'це', 'як', 'ви', 'ми', 'він', 'вона', 'де', 'є', 'так', 'ні'] },
+  zh: { script: HAN, stopwords: [] },
+};
+
+const count = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+const score = (text: string, words: string[], profile: LanguageProfile) => {
+  const scriptChars = count(text, profile.script);
+  if (scriptChars === 0) return 0;
+  const distinctive = profile.distinctive ? count(text, profile.distinctive) : 0;
+  const stopwords = words.filter(w => profile.stopwords.includes(w)).length;
+  return scriptChars + distinctive * 5 + stopwords * 4;
+};
+
+/**
+ * Heuristic detection restricted to `candidates`: script first, then language-specific letters and
+ * common words to tell apart languages sharing a script. Returns null when the text gives no clear winner.
+ */
+export function detectLanguage(text: string, candidates: LanguageCode[]): LanguageCode | null {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const ranked = candidates
+    .map(code => ({ code, score: score(text, words, PROFILES[code]) }))
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0 || ranked[0].score === 0) return null;
+  if (ranked.length > 1 && ranked[0].score === ranked[1].score) return null;
+  return ranked[0].code;
+}
+
+// Chrome's built-in LanguageDetector API
+const getDetectorApi = () => (globalThis as any).LanguageDetector;
+const MIN_DETECTOR_CONFIDENCE = 0.5;
+let detector: Promise<any> | null = null;
+
+/**
+ * Prefers the browser's on-device LanguageDetector when its model is already present, keeping only
+ * `candidates`, and falls back to the heuristic above.
+ */
+export async function detectLanguageAsync(text: string, candidates: LanguageCode[]): Promise<LanguageCode | null> {
+  const api = getDetectorApi();
+  if (api && text.trim()) {
+    try {
+      if (!detector) detector = api.availability().then((a: string) => (a === 'available' ? api.create() : null));
+      const instance = await detector;
+      if (instance) {
+        const results: { detectedLanguage: string; confidence: number }[] = await instance.detect(text);
+        const best = results
+          .map(r => ({ code: r.detectedLanguage.split('-')[0] as LanguageCode, confidence: r.confidence }))
+          .find(r => candidates.includes(r.code));
+        if (best && best.confidence >= MIN_DETECTOR_CONFIDENCE) return best.code;
+      }
+    } catch (err) {
+      detector = null;
+    }
+  }
+  return detectLanguage(text, candidates);
+}
@@ -0,0 +1,76 @@
+import { Language, LanguageCode, LanguagePair } from '../types';
+
+const US_STRIPES = [...Array(13)].map((_, i) => (i % 2 === 0 ? '#BD3D44' : '#FFFFFF'));
+
+export const LANGUAGES: Record<LanguageCode, Language> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    ttsLocale: 'en-US',
+    voice: 'Zephyr',
+    badge: 'EN',
+    flag: { stripes: US_STRIPES, canton: '#002664' },
+    placeholder: 'Enter text in English...',
+  },
+  ru: {
+    code: 'ru',
+    name: 'Russian',
+    ttsLocale: 'ru-RU',
+    voice: 'Kore',
+    badge: 'RU',
+    flag: { stripes: ['#FFFFFF', '#0039A6', '#D52B1E'] },
+    placeholder: 'Введите текст на русском...',
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    ttsLocale: 'de-DE',
+    voice: 'Charon',
+    badge: 'DE',
+    flag: { stripes: ['#000000', '#DD0000', '#FFCE00'] },
+    placeholder: 'Text auf Deutsch eingeben...',
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    ttsLocale: 'es-ES',
+    voice: 'Aoede',
+    badge: 'ES',
+    flag: { stripes: ['#AA151B', '#F1BF00', '#F1BF00', '#AA151B'] },
+    placeholder: 'Escribe el texto en español...',
+  },
+  uk: {
+    code: 'uk',
+    name: 'Ukrainian',
+    ttsLocale: 'uk-UA',
+    voice: 'Leda',
+    badge: 'UA',
+    flag: { stripes: ['#0057B7', '#FFD700'] },
+    placeholder: 'Введіть текст українською...',
+  },
+  zh: {
+    code: 'zh',
+    name: 'Chinese',
+    ttsLocale: 'zh-CN',
+    voice: 'Puck',
+    badge: 'ZH',
+    flag: { stripes: ['#DE2910'], emblem: { char: '★', color: '#FFDE00' } },
+    placeholder: '请输入中文文本...',
+  },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const DEFAULT_PAIR: LanguagePair = { source: 'en', target: 'ru' };
+
+export const getLanguage = (code: LanguageCode): Language => LANGUAGES[code];
+
+export const reversePair = (pair: LanguagePair): LanguagePair => ({ source: pair.target, target: pair.source });
+
+export const isLanguagePair = (value: unknown): value is LanguagePair =>
+  typeof value === 'object' && value !== null
+  && LANGUAGE_CODES.includes((value as LanguagePair).source) && LANGUAGE_CODES.includes((value as LanguagePair).target);
+
+export const isSamePair = (a: LanguagePair, b: LanguagePair) => a.source === b.source && a.target === b.target;
+
+export const pairKey = (pair: LanguagePair) => `${pair.source}-${pair.target}`;
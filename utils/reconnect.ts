@@ -0,0 +1,29 @@
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Seconds of microphone audio kept while the channel is down; older audio is dropped first. */
+  bufferSeconds: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  bufferSeconds: 10,
+};
+
+/** Exponential backoff with ±20% jitter; `attempt` starts at 1. */
+export const getBackoffDelay = (attempt: number, policy: Pick<ReconnectPolicy, 'baseDelayMs' | 'maxDelayMs'>) => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/** Appends a chunk to a queue capped at `maxSamples`, discarding the oldest chunks. */
+export const pushBounded = (queue: Int16Array[], chunk: Int16Array, maxSamples: number) => {
+  queue.push(chunk);
+  let total = queue.reduce((sum, c) => sum + c.length, 0);
+  while (total > maxSamples && queue.length > 1) {
+    total -= queue.shift()!.length;
+  }
+};
@@ -0,0 +1,31 @@
+// Wire format shared by the shared-conversation client and server/relayServer.ts. All frames are JSON text.
+import { ChatMessage, LanguageCode } from '../types';
+
+export const MAX_PARTICIPANTS = 2;
+// No 0/O or 1/I, so codes survive being read aloud or typed from another screen
+export const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const PAIRING_CODE_LENGTH = 6;
+
+export interface Participant {
+  id: string;
+  lang: LanguageCode;
+  online: boolean;
+}
+
+export type RelayClientMessage =
+  | { type: 'create'; participantId: string; lang: LanguageCode }
+  | { type: 'join'; code: string; participantId: string; lang: LanguageCode }
+  | { type: 'message'; message: ChatMessage }
+  /** The turn in progress on the sender's device; empty strings clear it. */
+  | { type: 'partial'; user: string; model: string }
+  | { type: 'leave' };
+
+export type RelayServerMessage =
+  | { type: 'joined'; code: string; conversationId: string; createdAt: number; participants: Participant[]; history: ChatMessage[] }
+  | { type: 'presence'; participants: Participant[] }
+  | { type: 'message'; from: string; message: ChatMessage }
+  | { type: 'partial'; from: string; user: string; model: string }
+  /** `fatal` errors end the membership (unknown code, room full); others are reported and ignored. */
+  | { type: 'error'; message: string; fatal?: boolean };
+
+export const normalizePairingCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
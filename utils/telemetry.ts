@@ -0,0 +1,117 @@
+import { LanguagePair, LiveMode } from '../types';
+
+export interface TurnTelemetry {
+  type: 'turn';
+  at: number;
+  mode: LiveMode;
+  pair: LanguagePair;
+  /** End of speech to the first reply audio chunk; absent for text-only replies. */
+  firstAudioMs?: number;
+  /** End of speech to turnComplete. */
+  turnCompleteMs?: number;
+  audioSentSeconds: number;
+  audioReceivedSeconds: number;
+  interrupted?: boolean;
+}
+
+export interface TextTelemetry {
+  type: 'text';
+  at: number;
+  /** Label of the engine that answered; absent when every engine failed. */
+  engine?: string;
+  latencyMs?: number;
+  fallbackReason?: string;
+  error?: string;
+}
+
+export interface ConnectionTelemetry {
+  type: 'connection';
+  at: number;
+  event: 'connect-failed' | 'error' | 'closed';
+  reason: string;
+}
+
+export type TelemetryEvent = TurnTelemetry | TextTelemetry | ConnectionTelemetry;
+
+interface LatencySum {
+  count: number;
+  totalMs: number;
+}
+
+export interface UsageTotals {
+  turns: number;
+  interruptedTurns: number;
+  audioSentSeconds: number;
+  audioReceivedSeconds: number;
+  firstAudio: LatencySum;
+  turnComplete: LatencySum;
+  /** Successful keyboard translations by engine label. */
+  textByEngine: Record<string, LatencySum>;
+  textFailures: number;
+  connectFailures: number;
+  /** Live sessions that dropped, by close or error reason. */
+  disconnects: Record<string, number>;
+}
+
+export const emptyTotals = (): UsageTotals => ({
+  turns: 0,
+  interruptedTurns: 0,
+  audioSentSeconds: 0,
+  audioReceivedSeconds: 0,
+  firstAudio: { count: 0, totalMs: 0 },
+  turnComplete: { count: 0, totalMs: 0 },
+  textByEngine: {},
+  textFailures: 0,
+  connectFailures: 0,
+  disconnects: {},
+});
+
+const addLatency = (sum: LatencySum, ms: number | undefined): LatencySum =>
+  ms === undefined ? sum : { count: sum.count + 1, totalMs: sum.totalMs + ms };
+
+export const formatLatency = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+export const averageMs = (sum: LatencySum | undefined) => (sum && sum.count ? Math.round(sum.totalMs / sum.count) : undefined);
+
+export function addToTotals(totals: UsageTotals, event: TelemetryEvent): UsageTotals {
+  switch (event.type) {
+    case 'turn':
+      return {
+        ...totals,
+        turns: totals.turns + 1,
+        interruptedTurns: totals.interruptedTurns + (event.interrupted ? 1 : 0),
+        audioSentSeconds: totals.audioSentSeconds + event.audioSentSeconds,
+        audioReceivedSeconds: totals.audioReceivedSeconds + event.audioReceivedSeconds,
+        firstAudio: addLatency(totals.firstAudio, event.firstAudioMs),
+        turnComplete: addLatency(totals.turnComplete, event.turnCompleteMs),
+      };
+    case 'text':
+      if (!event.engine) return { ...totals, textFailures: totals.textFailures + 1 };
+      return {
+        ...totals,
+        textByEngine: { ...totals.textByEngine, [event.engine]: addLatency(totals.textByEngine[event.engine] || { count: 0, totalMs: 0 }, event.latencyMs) },
+      };
+    case 'connection':
+      if (event.event === 'connect-failed') return { ...totals, connectFailures: totals.connectFailures + 1 };
+      return { ...totals, disconnects: { ...totals.disconnects, [event.reason]: (totals.disconnects[event.reason] || 0) + 1 } };
+  }
+}
+
+/** Local calendar day of a timestamp, e.g. "2024-05-31". */
+export const dayKey = (at: number) => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const JSON_FORMAT_ID = 'voice-match-telemetry';
+const JSON_FORMAT_VERSION = 1;
+
+export interface TelemetrySnapshot {
+  sessionStartedAt: number;
+  session: UsageTotals;
+  events: TelemetryEvent[];
+  daily: Record<string, UsageTotals>;
+}
+
+export const toTelemetryJson = (snapshot: TelemetrySnapshot): string =>
+  JSON.stringify({ format: JSON_FORMAT_ID, version: JSON_FORMAT_VERSION, exportedAt: new Date().toISOString(), userAgent: navigator.userAgent, ...snapshot }, null, 2);
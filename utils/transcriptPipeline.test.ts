@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRANSCRIPT_PIPELINE, RecentTranscript, TranscriptPipelineSettings, TranscriptStageId, runTranscriptPipeline } from './transcriptPipeline';
+import { ECHO_FIXTURES, NOISE_FIXTURES, PROFANITY_FIXTURES } from './__fixtures__/transcripts';
+
+const only = (stage: TranscriptStageId): TranscriptPipelineSettings =>
+  ({ ...DEFAULT_TRANSCRIPT_PIPELINE, echo: false, noise: false, dedupe: false, profanity: false, [stage]: true });
+
+describe('echo removal', () => {
+  it.each(ECHO_FIXTURES)('$name', ({ turn, expected }) => {
+    expect(runTranscriptPipeline(turn, only('echo'), [])).toEqual(expected);
+  });
+
+  it('never empties a translation with the default stages', () => {
+    for (const { turn } of ECHO_FIXTURES) {
+      expect(runTranscriptPipeline(turn, DEFAULT_TRANSCRIPT_PIPELINE, []).model).not.toBe('');
+    }
+  });
+});
+
+describe('noise filter', () => {
+  it.each(NOISE_FIXTURES)('$name', ({ turn, expected }) => {
+    expect(runTranscriptPipeline(turn, only('noise'), [])).toEqual(expected);
+  });
+});
+
+describe('duplicate suppression', () => {
+  const now = 100_000;
+  const recent: RecentTranscript[] = [
+    { sender: 'user', text: 'Where is the station?', timestamp: now - 4000 },
+    { sender: 'model', text: 'Где вокзал?', timestamp: now - 4000 },
+    { sender: 'user', text: 'Thank you', timestamp: now - 30000 },
+  ];
+
+  it('drops a line repeated by the same side within the window, ignoring case and punctuation', () => {
+    const turn = { user: 'where is the station', model: 'Где вокзал?' };
+    expect(runTranscriptPipeline(turn, only('dedupe'), recent, now)).toEqual({ user: '', model: '' });
+  });
+
+  it('keeps a line last seen outside the window', () => {
+    const turn = { user: 'Thank you', model: 'Спасибо' };
+    expect(runTranscriptPipeline(turn, only('dedupe'), recent, now)).toEqual(turn);
+  });
+
+  it('keeps a line that only the other side said', () => {
+    const turn = { user: 'Где вокзал?', model: 'Where is the station?' };
+    expect(runTranscriptPipeline(turn, only('dedupe'), recent, now)).toEqual(turn);
+  });
+});
+
+describe('profanity masking', () => {
+  it.each(PROFANITY_FIXTURES)('$name', ({ turn, expected }) => {
+    expect(runTranscriptPipeline(turn, only('profanity'), [])).toEqual(expected);
+  });
+});
@@ -0,0 +1,218 @@
+// Turns the raw input/output transcriptions of a Live turn into the text shown as chat messages.
+// Each stage is independent and can be switched off in Settings.
+
+export type TranscriptStageId = 'echo' | 'noise' | 'dedupe' | 'profanity';
+
+export interface TranscriptTurn {
+  /** What the speaker said (input transcription). */
+  user: string;
+  /** The translation (output transcription). */
+  model: string;
+}
+
+export interface RecentTranscript {
+  sender: 'user' | 'model';
+  text: string;
+  timestamp: number;
+}
+
+export interface TranscriptPipelineSettings extends Record<TranscriptStageId, boolean> {
+  dedupeWindowMs: number;
+}
+
+export const DEFAULT_TRANSCRIPT_PIPELINE: TranscriptPipelineSettings = {
+  echo: true,
+  noise: true,
+  dedupe: true,
+  profanity: false,
+  dedupeWindowMs: 10000,
+};
+
+interface StageContext {
+  settings: TranscriptPipelineSettings;
+  recent: RecentTranscript[];
+  now: number;
+}
+
+export interface TranscriptStage {
+  id: TranscriptStageId;
+  label: string;
+  description: string;
+  apply: (turn: TranscriptTurn, ctx: StageContext) => TranscriptTurn;
+}
+
+// --- Echo removal ---------------------------------------------------------------------------
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', є: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', і: 'i',
+  ї: 'i', й: 'i', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sh', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'iu', я: 'ia',
+};
+
+/** Lowercase, accent-free, Latin-script skeleton of a word, so "Привет" and "privet" compare equal. */
+const skeleton = (word: string) =>
+  word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[а-яёіїєґ]/g, c => CYRILLIC_TO_LATIN[c] ?? c)
+    .replace(/[^\p{L}\p{N}]/gu, '');
+
+const editDistance = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const wordsMatch = (a: string, b: string) => a === b || (Math.max(a.length, b.length) >= 4 && editDistance(a, b) <= Math.floor(Math.max(a.length, b.length) / 4));
+
+const WORD = /[\p{L}\p{N}']+/gu;
+/** Share of the echoed words that must match for a span to count as an echo. */
+const ECHO_MATCH_RATIO = 0.8;
+
+const SCRIPTS: [string, RegExp][] = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['han', /\p{Script=Han}/u],
+  ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['thai', /\p{Script=Thai}/u],
+];
+
+/** Writing system of a word; numbers and unknown scripts are 'common' and match any other. */
+const scriptOf = (word: string) => SCRIPTS.find(([, pattern]) => pattern.test(word))?.[0] ?? 'common';
+
+const sameScript = (a: string, b: string) => a === b || a === 'common' || b === 'common';
+
+const BOUNDARY_BEFORE = /(^|[.,!?;:—–-])\s*$/;
+const BOUNDARY_AFTER = /^\s*($|[.,!?;:—–-])/;
+
+const cutSpan = (text: string, start: number, end: number) => {
+  const before = text.slice(0, start);
+  const after = text.slice(end).replace(/^[\s.,!?;:—–-]+/, '');
+  return `${before}${before && after && !/\s$/.test(before) ? ' ' : ''}${after}`.replace(/\s{2,}/g, ' ').replace(/^[\s.,!?;:—–-]+/, '').trim();
+};
+
+/**
+ * Finds the span of `text` that repeats `source` (possibly transliterated or slightly misheard) and
+ * returns `text` without it. Cognates and names look like echoes too, so the cut must leave a real
+ * translation behind, and a span in another script than the source only counts when it stands as
+ * its own sentence or clause. Single-word sources are only stripped from the start of the reply when
+ * punctuation sets them apart, since "Anna is here" legitimately starts with a name.
+ */
+export function removeEcho(text: string, source: string): string {
+  const sourceWords = (source.match(WORD) || []).map(w => ({ key: skeleton(w), script: scriptOf(w) })).filter(w => w.key);
+  const words = [...text.matchAll(WORD)].map(m => ({ key: skeleton(m[0]), script: scriptOf(m[0]), start: m.index!, end: m.index! + m[0].length }));
+  const n = sourceWords.length;
+  if (n === 0 || words.length <= n) return text;
+
+  let best: { result: string; score: number } | null = null;
+  const lastStart = n === 1 ? 0 : words.length - n;
+  for (let i = 0; i <= lastStart; i++) {
+    const span = words.slice(i, i + n);
+    const score = sourceWords.filter((w, k) => wordsMatch(w.key, span[k].key)).length / n;
+    if (score < ECHO_MATCH_RATIO || (best && score <= best.score)) continue;
+
+    const start = span[0].start;
+    const end = span[n - 1].end;
+    const standalone = BOUNDARY_BEFORE.test(text.slice(0, start)) && BOUNDARY_AFTER.test(text.slice(end));
+    if (n === 1 && !BOUNDARY_AFTER.test(text.slice(end))) continue;
+    if (!standalone && !sourceWords.every((w, k) => sameScript(w.script, span[k].script))) continue;
+
+    const result = cutSpan(text, start, end);
+    if (!/\p{L}/u.test(result)) continue;
+    best = { result, score };
+  }
+  return best ? best.result : text;
+}
+
+// --- Noise and artifacts --------------------------------------------------------------------
+
+const NOISE_PATTERNS = [/^\d+$/, /^[.,!?;:…\s-]+$/, /^(noise|static|silence|music|inaudible)$/i];
+// Tags such as <noise> or [laughter] that transcription inserts for non-speech sounds
+const ARTIFACT = /<[^>]*>|\[[^\]]*\]/g;
+
+export const cleanNoise = (text: string) => {
+  const cleaned = text.replace(ARTIFACT, ' ').replace(/\s{2,}/g, ' ').trim();
+  return NOISE_PATTERNS.some(p => p.test(cleaned)) ? '' : cleaned;
+};
+
+// --- Dedupe -----------------------------------------------------------------------------------
+
+const normalizeForDedupe = (text: string) => (text.match(WORD) || []).map(w => w.toLowerCase()).join(' ');
+
+export const isRecentDuplicate = (sender: RecentTranscript['sender'], text: string, recent: RecentTranscript[], now: number, windowMs: number) => {
+  const key = normalizeForDedupe(text);
+  return Boolean(key) && recent.some(r => r.sender === sender && now - r.timestamp <= windowMs && normalizeForDedupe(r.text) === key);
+};
+
+// --- Profanity --------------------------------------------------------------------------------
+
+// Word stems; a word is masked when it starts with one of them
+const PROFANITY_STEMS = [
+  'fuck', 'shit', 'bitch', 'asshole', 'bastard', 'cunt', 'motherfuck',
+  'scheiß', 'scheiss', 'arschloch', 'fotze', 'wichser',
+  'mierda', 'puta', 'joder', 'coño', 'cabrón', 'gilipolla',
+  'бля', 'хуй', 'хуе', 'хує', 'пизд', 'ебат', 'ёб', 'сука', 'суки', 'мудак', 'гандон',
+];
+
+export const maskProfanity = (text: string) =>
+  text.replace(WORD, word => {
+    const lower = word.toLowerCase();
+    return PROFANITY_STEMS.some(stem => lower.startsWith(stem)) ? word[0] + '*'.repeat(word.length - 1) : word;
+  });
+
+// --- Pipeline ---------------------------------------------------------------------------------
+
+export const TRANSCRIPT_STAGES: TranscriptStage[] = [
+  {
+    id: 'echo',
+    label: 'Echo removal',
+    description: 'Strips the speaker\'s words when the translation repeats them, also mid-sentence or in the other script',
+    apply: turn => (turn.user ? { ...turn, model: removeEcho(turn.model, turn.user) } : turn),
+  },
+  {
+    id: 'noise',
+    label: 'Noise filter',
+    description: 'Drops transcripts of background noise and removes tags like <noise> or [laughter]',
+    apply: turn => ({ user: cleanNoise(turn.user), model: cleanNoise(turn.model) }),
+  },
+  {
+    id: 'dedupe',
+    label: 'Duplicate suppression',
+    description: 'Ignores a line identical to one from the same side shortly before',
+    apply: (turn, { recent, now, settings }) => ({
+      user: isRecentDuplicate('user', turn.user, recent, now, settings.dedupeWindowMs) ? '' : turn.user,
+      model: isRecentDuplicate('model', turn.model, recent, now, settings.dedupeWindowMs) ? '' : turn.model,
+    }),
+  },
+  {
+    id: 'profanity',
+    label: 'Profanity masking',
+    description: 'Replaces swear words with asterisks',
+    apply: turn => ({ user: maskProfanity(turn.user), model: maskProfanity(turn.model) }),
+  },
+];
+
+/** Runs the enabled stages in order over a completed Live turn. */
+export function runTranscriptPipeline(
+  turn: TranscriptTurn,
+  settings: TranscriptPipelineSettings,
+  recent: RecentTranscript[],
+  now: number = Date.now(),
+): TranscriptTurn {
+  const ctx: StageContext = { settings, recent, now };
+  const result = TRANSCRIPT_STAGES
+    .filter(stage => settings[stage.id])
+    .reduce((current, stage) => stage.apply(current, ctx), { user: turn.user.trim(), model: turn.model.trim() });
+  return { user: result.user.trim(), model: result.model.trim() };
+}
@@ -0,0 +1,117 @@
+import { Formality, LanguageCode, TranslationProfile } from '../types';
+import { LANGUAGE_CODES, getLanguage } from './languages';
+import { DEFAULT_LIVE_MODEL, DEFAULT_TEXT_MODEL, LIVE_MODELS, LIVE_VOICES, TEXT_MODELS } from '../engines/models';
+
+const PROFILES_FORMAT = 'voice-match-profiles';
+const PROFILES_VERSION = 1;
+
+const FORMALITY_RULES: Record<Exclude<Formality, 'auto'>, string> = {
+  formal: 'Address the listener formally, using the polite form of "you" where the language has one (Russian «вы», Ukrainian «ви», German "Sie", Spanish "usted", Chinese 您).',
+  informal: 'Address the listener informally, using the familiar form of "you" where the language has one (Russian «ты», Ukrainian «ти», German "du", Spanish "tú").',
+};
+
+export const FORMALITY_LABELS: Record<Formality, string> = { auto: 'As spoken', formal: 'Formal (вы)', informal: 'Informal (ты)' };
+
+const profile = (id: string, name: string, settings: Partial<TranslationProfile> = {}): TranslationProfile => ({
+  id,
+  name,
+  tone: '',
+  formality: 'auto',
+  domain: '',
+  voices: {},
+  liveModel: DEFAULT_LIVE_MODEL,
+  textModel: DEFAULT_TEXT_MODEL,
+  ...settings,
+});
+
+export const BUILTIN_PROFILES: TranslationProfile[] = [
+  profile('standard', 'Standard'),
+  profile('business-formal', 'Business formal', {
+    tone: 'professional, courteous and precise',
+    formality: 'formal',
+    domain: 'business meetings and negotiations',
+  }),
+  profile('medical', 'Medical', {
+    tone: 'calm, clear and reassuring',
+    formality: 'formal',
+    domain: 'a consultation between a doctor and a patient; keep symptoms, doses and drug names exact',
+    textModel: 'gemini-2.5-pro',
+  }),
+  profile('casual-travel', 'Casual travel', {
+    tone: 'friendly and relaxed, short everyday phrases',
+    formality: 'informal',
+    domain: 'travel: directions, shops, restaurants, hotels and transport',
+  }),
+];
+
+const profileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const newProfile = (base: TranslationProfile, name: string): TranslationProfile =>
+  ({ ...base, id: profileId(), name, voices: { ...base.voices } });
+
+/** The profile's voice for speech in `lang`. */
+export const profileVoice = (p: TranslationProfile, lang: LanguageCode) => p.voices[lang] || getLanguage(lang).voice;
+
+/** Prompt section with the profile's style rules; empty when the profile adds nothing. */
+export const buildProfileInstruction = (p: TranslationProfile) => {
+  const rules = [
+    p.tone.trim() && `Tone: ${p.tone.trim()}.`,
+    p.formality !== 'auto' && FORMALITY_RULES[p.formality],
+    p.domain.trim() && `Context: ${p.domain.trim()}. Use the terminology usual in this field.`,
+  ].filter((rule): rule is string => Boolean(rule));
+  return rules.length ? `STYLE:\n${rules.map(rule => `- ${rule}`).join('\n')}` : '';
+};
+
+/** Whether two versions of a profile differ in anything a running Live session was set up with. */
+export const affectsLiveSession = (a: TranslationProfile, b: TranslationProfile) =>
+  buildProfileInstruction(a) !== buildProfileInstruction(b) || a.liveModel !== b.liveModel || JSON.stringify(a.voices) !== JSON.stringify(b.voices);
+
+export const toProfilesJson = (profiles: TranslationProfile[]) =>
+  JSON.stringify({ format: PROFILES_FORMAT, version: PROFILES_VERSION, profiles }, null, 2);
+
+export class ProfileImportError extends Error {}
+
+const validateProfile = (raw: any, i: number): TranslationProfile => {
+  const where = `Profile ${i + 1}`;
+  if (typeof raw?.name !== 'string' || !raw.name.trim()) throw new ProfileImportError(`${where}: name is missing.`);
+  const voices: TranslationProfile['voices'] = {};
+  Object.keys(raw.voices || {}).forEach(lang => {
+    const voice = raw.voices[lang];
+    if (!(LANGUAGE_CODES as string[]).includes(lang) || !LIVE_VOICES.includes(voice)) throw new ProfileImportError(`${where}: unknown voice "${voice}" for "${lang}".`);
+    voices[lang as LanguageCode] = voice;
+  });
+  const liveModel = raw.liveModel ?? DEFAULT_LIVE_MODEL;
+  const textModel = raw.textModel ?? DEFAULT_TEXT_MODEL;
+  if (!LIVE_MODELS.some(m => m.id === liveModel)) throw new ProfileImportError(`${where}: unknown Live model "${liveModel}".`);
+  if (!TEXT_MODELS.some(m => m.id === textModel)) throw new ProfileImportError(`${where}: unknown text model "${textModel}".`);
+  const formality = raw.formality ?? 'auto';
+  if (!(formality in FORMALITY_LABELS)) throw new ProfileImportError(`${where}: unknown formality "${formality}".`);
+  return profile(typeof raw.id === 'string' && raw.id ? raw.id : profileId(), raw.name.trim(), {
+    tone: typeof raw.tone === 'string' ? raw.tone : '',
+    formality,
+    domain: typeof raw.domain === 'string' ? raw.domain : '',
+    voices,
+    liveModel,
+    textModel,
+  });
+};
+
+/** Reads profiles exported by toProfilesJson; a bare array of profiles is accepted too. */
+export const parseProfilesJson = (text: string): TranslationProfile[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProfileImportError('This is not a JSON file.');
+  }
+  const profiles = Array.isArray(data) ? data : data?.format === PROFILES_FORMAT ? data.profiles : null;
+  if (!Array.isArray(profiles)) throw new ProfileImportError('No translation profiles found in this file.');
+  if (!Array.isArray(data) && data.version > PROFILES_VERSION) throw new ProfileImportError('These profiles come from a newer version of the app.');
+  return profiles.map(validateProfile);
+};
+
+/** Adds imported profiles, replacing existing ones with the same id. */
+export const mergeProfiles = (existing: TranslationProfile[], imported: TranslationProfile[]) => {
+  const importedIds = new Set(imported.map(p => p.id));
+  return [...existing.filter(p => !importedIds.has(p.id)), ...imported];
+};
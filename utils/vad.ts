@@ -0,0 +1,105 @@
+import { pushBounded } from './reconnect';
+
+export type InputMode = 'continuous' | 'vad' | 'push-to-talk';
+
+export interface VadSettings {
+  inputMode: InputMode;
+  /** Frame energy in dBFS above which the microphone may be carrying speech. */
+  thresholdDb: number;
+  /** Minimum share of the spectrum's energy that must fall in the 300–3400 Hz voice band. */
+  minVoiceBandRatio: number;
+  /** Audio from before speech was detected that is sent along with it, so onsets aren't clipped. */
+  preRollMs: number;
+  /** How long streaming continues after the last speech frame. */
+  hangoverMs: number;
+  /** `KeyboardEvent.code` held for push-to-talk. */
+  pttKey: string;
+  /** How long streaming continues after the push-to-talk button is released. */
+  pttTailMs: number;
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  inputMode: 'continuous',
+  thresholdDb: -50,
+  minVoiceBandRatio: 0.5,
+  preRollMs: 300,
+  hangoverMs: 800,
+  pttKey: 'Space',
+  pttTailMs: 300,
+};
+
+const VOICE_BAND_HZ = [300, 3400];
+const POLL_INTERVAL_MS = 30;
+
+export interface VoiceActivityDetector {
+  isSpeaking: () => boolean;
+  stop: () => void;
+}
+
+/**
+ * Polls `analyser` and reports speech while a frame is loud enough and voice-shaped, holding the
+ * state for the hang-over period. Settings are read on every frame so Settings changes apply live.
+ */
+export function createVoiceActivityDetector(analyser: AnalyserNode, getSettings: () => VadSettings): VoiceActivityDetector {
+  const time = new Float32Array(analyser.fftSize);
+  const freq = new Float32Array(analyser.frequencyBinCount);
+  const binHz = analyser.context.sampleRate / analyser.fftSize;
+  let lastSpeechAt = -Infinity;
+
+  const poll = () => {
+    const settings = getSettings();
+    analyser.getFloatTimeDomainData(time);
+    const meanSquare = time.reduce((sum, s) => sum + s * s, 0) / time.length;
+    if (10 * Math.log10(meanSquare || 1e-12) < settings.thresholdDb) return;
+
+    analyser.getFloatFrequencyData(freq);
+    let total = 0;
+    let voice = 0;
+    freq.forEach((db, i) => {
+      const power = Math.pow(10, db / 10);
+      total += power;
+      if (i * binHz >= VOICE_BAND_HZ[0] && i * binHz <= VOICE_BAND_HZ[1]) voice += power;
+    });
+    if (total > 0 && voice / total >= settings.minVoiceBandRatio) lastSpeechAt = performance.now();
+  };
+
+  const timer = window.setInterval(poll, POLL_INTERVAL_MS);
+  return {
+    isSpeaking: () => performance.now() - lastSpeechAt <= getSettings().hangoverMs,
+    stop: () => clearInterval(timer),
+  };
+}
+
+export interface SpeechGate {
+  readonly isOpen: boolean;
+  /**
+   * Feeds one capture chunk. Returns the chunks to stream (the held pre-roll when speech starts)
+   * and whether this chunk closed the gate.
+   */
+  process: (pcm: Int16Array, speaking: boolean, preRollSamples: number) => { chunks: Int16Array[]; closed: boolean };
+  reset: () => void;
+}
+
+export function createSpeechGate(): SpeechGate {
+  let open = false;
+  let preRoll: Int16Array[] = [];
+  return {
+    get isOpen() { return open; },
+    process: (pcm, speaking, preRollSamples) => {
+      if (speaking) {
+        const chunks = open ? [pcm] : [...preRoll, pcm];
+        preRoll = [];
+        open = true;
+        return { chunks, closed: false };
+      }
+      const closed = open;
+      open = false;
+      if (preRollSamples > 0) pushBounded(preRoll, pcm, preRollSamples);
+      return { chunks: [], closed };
+    },
+    reset: () => {
+      open = false;
+      preRoll = [];
+    },
+  };
+}
@@ -1,19 +1,62 @@
+import crypto from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, transformWithEsbuild, Plugin, ResolvedConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+const listFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory() ? listFiles(path.join(dir, entry.name)).map(f => `${entry.name}/${f}`) : [entry.name])
+    : [];
+
+/** Compiles serviceWorker.ts to /sw.js with the build output and public files as its precache list. */
+const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+  return {
+    name: 'voice-match-service-worker',
+    apply: 'build',
+    // After vite:build-html, so index.html is part of the bundle
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    async generateBundle(_, bundle) {
+      const urls = ['/', ...Object.keys(bundle), ...listFiles(config.publicDir)]
+        .filter(file => !file.endsWith('.map'))
+        .map(file => (file.startsWith('/') ? file : `/${file}`));
+      const source = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.ts'), 'utf8');
+      const { code } = await transformWithEsbuild(source, 'serviceWorker.ts', {
+        minify: true,
+        define: {
+          __PRECACHE_URLS__: JSON.stringify(urls),
+          // Asset names are content-hashed, so the list itself identifies the build
+          __BUILD_VERSION__: JSON.stringify(crypto.createHash('sha256').update(urls.join()).digest('hex').slice(0, 12)),
+        },
+      });
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: code });
+    },
+  };
+};
+
+// The Gemini key stays in server/tokenServer.ts; the app reaches it through /api.
+// Shared conversations go through server/relayServer.ts at /relay.
+const serverProxy = {
+  '/api': `http://localhost:${process.env.TOKEN_SERVER_PORT || 8788}`,
+  '/relay': { target: `ws://localhost:${process.env.RELAY_PORT || 8789}`, ws: true },
+};
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: serverProxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy: serverProxy,
       },
+      plugins: [react(), serviceWorker()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),